@@ -0,0 +1,195 @@
+import path from "node:path";
+import { AUDIT_RULES } from "./work-node.js";
+import type { AuditFinding, AuditResult, AuditSeverity } from "./work-node.js";
+
+export const AUDIT_REPORT_FORMATS = ["text", "json", "junit", "sarif"] as const;
+
+export type AuditReportFormat = (typeof AUDIT_REPORT_FORMATS)[number];
+
+export interface AuditReportOptions {
+  /** Directory the audit was started from; node paths are reported relative to it. */
+  root: string;
+  toolVersion: string;
+  /** Directory SARIF artifact URIs are made relative to (defaults to the working directory). */
+  baseDir?: string;
+}
+
+function toPosix(relative: string): string {
+  return relative.split(path.sep).join("/");
+}
+
+function relativeNode(root: string, node: string): string {
+  return toPosix(path.relative(root, node)) || ".";
+}
+
+function countBySeverity(results: AuditResult[], severity: AuditSeverity): number {
+  return results.reduce(
+    (total, result) => total + result.findings.filter((finding) => finding.severity === severity).length,
+    0
+  );
+}
+
+function hasErrors(result: AuditResult): boolean {
+  return result.findings.some((finding) => finding.severity === "error");
+}
+
+export function formatAuditText(results: AuditResult[], options: AuditReportOptions): string {
+  if (!results.length) {
+    return `No WorkNodes found under ${options.root}.`;
+  }
+  const lines: string[] = [];
+  let failures = 0;
+  for (const result of results) {
+    if (!result.findings.length) {
+      lines.push(`[ok] ${result.layout.root}`);
+      continue;
+    }
+    if (hasErrors(result)) {
+      failures += 1;
+    }
+    lines.push(`[${hasErrors(result) ? "error" : "warning"}] ${result.layout.root}`);
+    for (const finding of result.findings) {
+      lines.push(`  - ${finding.message}`);
+    }
+  }
+  lines.push(`Audit completed: ${results.length} nodes checked.`);
+  if (failures) {
+    lines.push(`${failures} nodes had validation errors.`);
+  }
+  return lines.join("\n");
+}
+
+/** Builds the versioned document behind `--format json`. */
+export function buildAuditJsonReport(results: AuditResult[], options: AuditReportOptions) {
+  return {
+    version: 1,
+    tool: { name: "worktree", version: options.toolVersion },
+    root: options.root,
+    summary: {
+      nodes: results.length,
+      failedNodes: results.filter(hasErrors).length,
+      errors: countBySeverity(results, "error"),
+      warnings: countBySeverity(results, "warning")
+    },
+    nodes: results.map((result) => ({
+      root: result.layout.root,
+      path: relativeNode(options.root, result.layout.root),
+      ok: !hasErrors(result),
+      findings: result.findings
+    }))
+  };
+}
+
+export function formatAuditJson(results: AuditResult[], options: AuditReportOptions): string {
+  return JSON.stringify(buildAuditJsonReport(results, options), null, 2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function describeLocation(finding: AuditFinding): string {
+  if (!finding.file) {
+    return "";
+  }
+  return finding.line ? `${finding.file}:${finding.line}: ` : `${finding.file}: `;
+}
+
+export function formatAuditJunit(results: AuditResult[], options: AuditReportOptions): string {
+  const failures = results.filter(hasErrors).length;
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="worktree audit" tests="${results.length}" failures="${failures}">`,
+    `  <testsuite name="worktree audit" tests="${results.length}" failures="${failures}" errors="0" skipped="0">`
+  ];
+  for (const result of results) {
+    const name = escapeXml(relativeNode(options.root, result.layout.root));
+    const errors = result.findings.filter((finding) => finding.severity === "error");
+    const warnings = result.findings.filter((finding) => finding.severity !== "error");
+    if (!errors.length && !warnings.length) {
+      lines.push(`    <testcase classname="worktree.audit" name="${name}"/>`);
+      continue;
+    }
+    lines.push(`    <testcase classname="worktree.audit" name="${name}">`);
+    for (const finding of errors) {
+      const body = escapeXml(`${describeLocation(finding)}${finding.message}`);
+      lines.push(`      <failure type="${escapeXml(finding.ruleId)}" message="${escapeXml(finding.message)}">${body}</failure>`);
+    }
+    if (warnings.length) {
+      const output = warnings.map((finding) => `[${finding.ruleId}] ${describeLocation(finding)}${finding.message}`);
+      lines.push(`      <system-out>${escapeXml(output.join("\n"))}</system-out>`);
+    }
+    lines.push(`    </testcase>`);
+  }
+  lines.push(`  </testsuite>`, `</testsuites>`);
+  return lines.join("\n");
+}
+
+export function formatAuditSarif(results: AuditResult[], options: AuditReportOptions): string {
+  const baseDir = path.resolve(options.baseDir ?? process.cwd());
+  const usedRules = new Set(results.flatMap((result) => result.findings.map((finding) => finding.ruleId)));
+  const rules = AUDIT_RULES.filter((rule) => usedRules.has(rule.id));
+  const sarifResults = results.flatMap((result) =>
+    result.findings.map((finding) => {
+      const target = finding.file ? path.join(finding.node, finding.file) : finding.node;
+      const region = finding.line ? { region: { startLine: finding.line } } : {};
+      return {
+        ruleId: finding.ruleId,
+        ruleIndex: rules.findIndex((rule) => rule.id === finding.ruleId),
+        level: finding.severity === "error" ? "error" : "warning",
+        message: { text: finding.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: toPosix(path.relative(baseDir, target)) || "." },
+              ...region
+            }
+          }
+        ]
+      };
+    })
+  );
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "worktree",
+            version: options.toolVersion,
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.severity }
+            }))
+          }
+        },
+        results: sarifResults
+      }
+    ]
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+export function formatAuditReport(
+  format: AuditReportFormat,
+  results: AuditResult[],
+  options: AuditReportOptions
+): string {
+  switch (format) {
+    case "text":
+      return formatAuditText(results, options);
+    case "json":
+      return formatAuditJson(results, options);
+    case "junit":
+      return formatAuditJunit(results, options);
+    case "sarif":
+      return formatAuditSarif(results, options);
+  }
+}
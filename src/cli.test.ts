@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { WorkNode } from "./work-node.js";
+
+const STEPS = [{ phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] }];
+const BIN = fileURLToPath(new URL("../bin/worktree.js", import.meta.url));
+
+/** Runs the CLI without an inherited lease session and returns its stdout. */
+async function worktree(...args: string[]): Promise<string> {
+  const env: NodeJS.ProcessEnv = { ...process.env, WORKTREE_OWNER: "agent" };
+  delete env.WORKTREE_SESSION;
+  const { stdout, stderr } = await promisify(execFile)(process.execPath, [BIN, ...args], { env });
+  assert.equal(stderr, "", `worktree ${args.join(" ")} reported: ${stderr}`);
+  return stdout;
+}
+
+test("run, note, outcome, and run --complete share the session printed by run", async (t) => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "worktree-cli-"));
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  await WorkNode.initialize(root, STEPS);
+  const log = path.join(root, "logs", "p1-s1.1.md");
+
+  const started = await worktree("run", root);
+  const session = /^Lease session: (\S+)$/m.exec(started)?.[1];
+  assert.ok(session, started);
+  assert.match(started, new RegExp(`export WORKTREE_SESSION=${session}`));
+
+  await worktree("note", "Parsed the input", "--node", root, "--session", session);
+  await worktree("outcome", "Parses the input", "--node", root, "--session", session);
+  const contents = await fs.readFile(log, "utf8");
+  await fs.writeFile(log, contents.replace("- [ ] Parse the input.", "- [x] Parse the input."));
+  await worktree("run", root, "--complete", "--session", session);
+
+  const node = await WorkNode.load(root);
+  assert.equal(node.state.findById("1.1")?.status, "done");
+  assert.match(await fs.readFile(log, "utf8"), /Parsed the input/);
+  await assert.rejects(fs.stat(path.join(root, ".worktree.lock")), { code: "ENOENT" });
+});
@@ -1,14 +1,77 @@
+import { promises as fs } from "node:fs";
 import path from "node:path";
 import {
   WorkNode,
-  updateStateEntry,
+  STEP_STATUSES,
   auditWorkNodes,
+  formatStateRow,
+  summarizeWorkNodes,
   validateWorkNodeLayout
 } from "./work-node.js";
-import type { WorkNodeLayout } from "./work-node.js";
+import { auditWorkNodesSince } from "./history.js";
+import { EVENTS_FILENAME, findJournalDrift, readEvents, replayEvents } from "./events.js";
+import { AUDIT_REPORT_FORMATS, formatAuditReport } from "./audit-report.js";
+import { execWorkNodeSteps } from "./exec.js";
+import { EXPORT_FORMATS, exportWorkTree, importWorkTree } from "./export.js";
+import { applyWorkNodeFixes, formatUnifiedDiff, planWorkNodeFixes } from "./fix.js";
+import { GRAPH_FORMATS, buildWorkGraph, formatWorkGraph } from "./graph.js";
+import { serveMcpStdio } from "./mcp.js";
+import { MIGRATIONS_FILENAME } from "./migrations.js";
+import { renderStepPrompt } from "./prompt.js";
+import { PROGRESS_REPORT_FORMATS, buildProgressReport, formatProgressReport } from "./report.js";
+import { RunStepError, runWorkNodeStep } from "./runner.js";
+import { DEFAULT_SERVER_PORT, LOOPBACK_HOSTS, createWorkTreeServer } from "./server.js";
+import { generateWorkTreeSite } from "./site.js";
+import { atomicWriteFile } from "./storage.js";
+import { recoverWorkNodeTransaction } from "./transaction.js";
+import { watchWorkNodes } from "./watch.js";
+import {
+  acquireWorkNodeLock,
+  defaultLockOwner,
+  defaultLockSession,
+  describeLock,
+  lockExpiresAt,
+  releaseWorkNodeLock
+} from "./lock.js";
+import type { AuditReportFormat } from "./audit-report.js";
+import type { WorkNodeEvent } from "./events.js";
+import type { ExecResult } from "./exec.js";
+import type { ExportFormat } from "./export.js";
+import type { WorkNodeFixPlan } from "./fix.js";
+import type { GraphFormat } from "./graph.js";
+import type { ProgressReportFormat } from "./report.js";
+import type { RunStepResult } from "./runner.js";
+import type { AuditResult, StateRow, StepStatus, WorkNodeLayout, WorkNodeStatusSummary } from "./work-node.js";
 import pkg from "../package.json" with { type: "json" };
 
-const AVAILABLE_COMMANDS = ["init", "run", "audit", "status"] as const;
+const AVAILABLE_COMMANDS = [
+  "init",
+  "run",
+  "audit",
+  "status",
+  "lock",
+  "unlock",
+  "block",
+  "unblock",
+  "supersede",
+  "reopen",
+  "note",
+  "outcome",
+  "plan",
+  "migrate",
+  "fix",
+  "watch",
+  "serve",
+  "mcp",
+  "prompt",
+  "exec",
+  "export",
+  "import",
+  "graph",
+  "report",
+  "site",
+  "history"
+] as const;
 
 type Command = (typeof AVAILABLE_COMMANDS)[number];
 
@@ -63,12 +126,26 @@ const META_NODE_ROOT = path.resolve("docs/work");
 type RunOptions = {
   target: string;
   complete: boolean;
+  force: boolean;
+  owner: string;
+  session?: string;
+  ttlSeconds?: number;
 };
 
+function parsePositiveInteger(arg: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (!value || !Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Expected a positive integer after ${arg}`);
+  }
+  return parsed;
+}
+
 function parseRunOptions(args: string[]): RunOptions {
   const options: RunOptions = {
     target: process.cwd(),
-    complete: false
+    complete: false,
+    force: false,
+    owner: defaultLockOwner()
   };
 
   for (let i = 0; i < args.length; i += 1) {
@@ -77,6 +154,27 @@ function parseRunOptions(args: string[]): RunOptions {
       case "--complete":
         options.complete = true;
         break;
+      case "--force":
+        options.force = true;
+        break;
+      case "--owner":
+      case "--session": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--owner") {
+          options.owner = value;
+        } else {
+          options.session = value;
+        }
+        i += 1;
+        break;
+      }
+      case "--ttl":
+        options.ttlSeconds = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
       case "--target":
       case "--node": {
         const value = args[i + 1];
@@ -110,140 +208,1951 @@ function parseInitOptions(args: string[]): InitOptions {
   };
 }
 
-async function handleRun(args: string[]): Promise<void> {
-  let options: RunOptions;
-  try {
-    options = parseRunOptions(args);
-  } catch (error) {
-    console.error(`Invalid arguments for run: ${(error as Error).message}`);
-    return;
+type StatusOptions = {
+  target: string;
+  status: StepStatus | null;
+  depth: number | null;
+  json: boolean;
+};
+
+function parseStatusOptions(args: string[]): StatusOptions {
+  const options: StatusOptions = {
+    target: process.cwd(),
+    status: null,
+    depth: null,
+    json: false
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--json":
+        options.json = true;
+        break;
+      case "--status": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (!STEP_STATUSES.includes(value as StepStatus)) {
+          throw new Error(`Unknown status '${value}' (expected one of ${STEP_STATUSES.join(", ")})`);
+        }
+        options.status = value as StepStatus;
+        i += 1;
+        break;
+      }
+      case "--depth": {
+        const value = args[i + 1];
+        const depth = Number(value);
+        if (!value || !Number.isInteger(depth) || depth < 0) {
+          throw new Error(`Expected a non-negative integer after ${arg}`);
+        }
+        options.depth = depth;
+        i += 1;
+        break;
+      }
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          break;
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
   }
 
-  let layout: WorkNodeLayout;
+  return options;
+}
+
+function describeStep(row: StateRow | null): string {
+  return row ? `${row.step} – ${row.label}` : "-";
+}
+
+function displayRoot(target: string, root: string): string {
+  const relative = path.relative(target, root).split(path.sep).join("/");
+  return relative || ".";
+}
+
+function formatStatusCounts(counts: Record<StepStatus, number>): string {
+  return STEP_STATUSES.map((status) => `${status} ${counts[status]}`).join(" · ");
+}
+
+function printStatusTree(target: string, summaries: WorkNodeStatusSummary[]): void {
+  const children = new Map<string | null, WorkNodeStatusSummary[]>();
+  const included = new Set(summaries.map((summary) => summary.layout.root));
+  for (const summary of summaries) {
+    const parent = summary.parent && included.has(summary.parent) ? summary.parent : null;
+    const siblings = children.get(parent) ?? [];
+    siblings.push(summary);
+    children.set(parent, siblings);
+  }
+
+  const visit = (summary: WorkNodeStatusSummary): void => {
+    const indent = "  ".repeat(summary.depth);
+    console.log(`${indent}${displayRoot(target, summary.layout.root)}`);
+    if (summary.error) {
+      console.log(`${indent}  error: ${summary.error.split(/\r?\n/)[0]}`);
+    } else {
+      console.log(`${indent}  ${formatStatusCounts(summary.counts)}`);
+      console.log(`${indent}  current: ${describeStep(summary.current)}`);
+      console.log(`${indent}  next: ${describeStep(summary.next)}`);
+    }
+    for (const child of children.get(summary.layout.root) ?? []) {
+      visit(child);
+    }
+  };
+
+  for (const summary of children.get(null) ?? []) {
+    visit(summary);
+  }
+}
+
+async function handleStatus(args: string[]): Promise<void> {
+  let options: StatusOptions;
   try {
-    layout = await validateWorkNodeLayout(options.target);
+    options = parseStatusOptions(args);
   } catch (error) {
-    console.error(`Invalid WorkNode root '${options.target}': ${(error as Error).message}`);
+    console.error(`Invalid arguments for status: ${(error as Error).message}`);
     return;
   }
 
-  let node: WorkNode;
-  try {
-    node = await WorkNode.loadFromLayout(layout);
-  } catch (error) {
-    console.error(`Failed to load WorkNode at '${options.target}': ${(error as Error).message}`);
+  const summaries = (await summarizeWorkNodes(options.target)).filter((summary) => {
+    if (options.depth !== null && summary.depth > options.depth) {
+      return false;
+    }
+    if (options.status && summary.counts[options.status] === 0) {
+      return false;
+    }
+    return true;
+  });
+
+  if (options.json) {
+    const payload = summaries.map((summary) => ({
+      root: summary.layout.root,
+      path: displayRoot(options.target, summary.layout.root),
+      parent: summary.parent,
+      depth: summary.depth,
+      counts: summary.counts,
+      current: summary.current,
+      next: summary.next,
+      error: summary.error
+    }));
+    console.log(JSON.stringify(payload, null, 2));
     return;
   }
-  const actionable = node.getNextActionableStep();
-  if (!actionable) {
-    console.log(`No actionable steps remain under ${options.target}.`);
+
+  if (!summaries.length) {
+    console.log(`No matching WorkNodes found under ${options.target}.`);
     return;
   }
 
-  const planStep = node.plan.find(actionable.phase, actionable.step);
-  if (!planStep) {
-    throw new Error(`Plan step ${actionable.phase}.${actionable.step} not found in PLAN.md`);
+  printStatusTree(options.target, summaries);
+}
+
+async function handleRun(args: string[]): Promise<void> {
+  let options: RunOptions;
+  try {
+    options = parseRunOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for run: ${(error as Error).message}`);
+    return;
   }
 
-  const logPaths = await node.createLogForStep(planStep);
-  if (actionable.status !== "in-progress") {
-    updateStateEntry(node.state, actionable.phase, actionable.step, {
-      status: "in-progress"
+  let result: RunStepResult;
+  try {
+    result = await runWorkNodeStep(options.target, {
+      command: options.complete ? "run --complete" : "run",
+      owner: options.owner,
+      session: options.session,
+      ttlSeconds: options.ttlSeconds,
+      complete: options.complete,
+      force: options.force
     });
+  } catch (error) {
+    const message = (error as Error).message;
+    switch (error instanceof RunStepError ? error.code : null) {
+      case "invalid-node":
+        console.error(`Invalid WorkNode root '${options.target}': ${message}`);
+        return;
+      case "node-inconsistent":
+        console.error(`Failed to load WorkNode at '${options.target}': ${message}`);
+        return;
+      case "no-actionable-step":
+        console.log(`No actionable steps remain under ${options.target}.`);
+        return;
+      case "node-locked":
+        console.error(`Cannot run ${options.target}: ${message}`);
+        process.exitCode = 1;
+        return;
+      case "step-incomplete":
+        console.error(message);
+        console.error("Finish the log and rerun `worktree run --complete`, or pass --force to override (recorded in Notes).");
+        process.exitCode = 1;
+        return;
+      default:
+        throw error;
+    }
   }
-  await node.persistState();
 
-  if (options.complete) {
-    const completedAt = new Date().toISOString();
-    await node.updateLogForStep(planStep, { status: "done", completed: completedAt });
-    updateStateEntry(node.state, actionable.phase, actionable.step, { status: "done" });
-    await node.persistState();
-    console.log(`Step ${actionable.phase}.${actionable.step} (${actionable.label}) marked done.`);
+  const { step: actionable, planStep } = result;
+  if (result.completed) {
+    console.log(`Step ${actionable.step} (${actionable.label}) marked done.`);
     return;
   }
 
   console.log(`Next actionable step: Phase ${actionable.phase} Step ${actionable.step} – ${actionable.label}`);
   console.log(`WorkNode root: ${options.target}`);
-  console.log(`Log file: ${logPaths.relative}`);
+  console.log(`Log file: ${result.logPath}`);
   if (planStep.details?.length) {
     console.log("Plan:");
     for (const detail of planStep.details) {
       console.log(`  - ${detail}`);
     }
   }
+  console.log(`Lease session: ${result.session}`);
+  console.log(
+    "Notes, outcomes, `worktree run --complete`, and every other command that writes to this node must continue this session:"
+  );
+  console.log(`  export WORKTREE_SESSION=${result.session}   (or pass --session ${result.session})`);
   console.log("Use \`worktree run --complete\` when you finish this step to mark it done.");
 }
 
-async function handleInit(args: string[]): Promise<void> {
-  let options: InitOptions;
+type LockCommandOptions = {
+  target: string;
+  owner: string;
+  session?: string;
+  ttlSeconds?: number;
+  force: boolean;
+};
+
+function parseLockOptions(args: string[]): LockCommandOptions {
+  const options: LockCommandOptions = {
+    target: process.cwd(),
+    owner: defaultLockOwner(),
+    force: false
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--force":
+        options.force = true;
+        break;
+      case "--ttl":
+        options.ttlSeconds = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--owner":
+      case "--session":
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--owner") {
+          options.owner = value;
+        } else if (arg === "--session") {
+          options.session = value;
+        } else {
+          options.target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          break;
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleLock(args: string[]): Promise<void> {
+  let options: LockCommandOptions;
+  let layout: WorkNodeLayout;
   try {
-    options = parseInitOptions(args);
+    options = parseLockOptions(args);
+    layout = await validateWorkNodeLayout(options.target);
   } catch (error) {
-    console.error(`Invalid arguments for init: ${(error as Error).message}`);
+    console.error(`Invalid arguments for lock: ${(error as Error).message}`);
     return;
   }
 
   try {
-    await WorkNode.initialize(options.target);
-    console.log(`Initialized a new WorkNode at ${options.target}`);
-    console.log("Run `worktree run` inside that directory to begin the first step.");
+    const lock = await acquireWorkNodeLock(layout, {
+      owner: options.owner,
+      session: options.session ?? defaultLockSession(),
+      ttlSeconds: options.ttlSeconds
+    });
+    console.log(`Locked ${options.target} for ${describeLock(lock)} until ${lockExpiresAt(lock).toISOString()}.`);
+    console.log(`Lease session: ${lock.session}`);
   } catch (error) {
-    console.error(`Failed to initialize WorkNode: ${(error as Error).message}`);
+    console.error(`Failed to lock WorkNode: ${(error as Error).message}`);
+    process.exitCode = 1;
   }
 }
 
-async function handleAudit(args: string[]): Promise<void> {
-  let target: string;
+async function handleUnlock(args: string[]): Promise<void> {
+  let options: LockCommandOptions;
+  let layout: WorkNodeLayout;
   try {
-    target = extractTargetOption(args, META_NODE_ROOT);
+    options = parseLockOptions(args);
+    layout = await validateWorkNodeLayout(options.target);
   } catch (error) {
-    console.error(`Invalid arguments for audit: ${(error as Error).message}`);
+    console.error(`Invalid arguments for unlock: ${(error as Error).message}`);
     return;
   }
 
-  const results = await auditWorkNodes(target);
-  if (!results.length) {
-    console.log(`No WorkNodes found under ${target}.`);
-    return;
+  try {
+    const released = await releaseWorkNodeLock(layout, {
+      owner: options.owner,
+      session: options.session,
+      force: options.force
+    });
+    if (released) {
+      console.log(`Released lock held by ${describeLock(released)}.`);
+    } else {
+      console.log(`${options.target} was not locked.`);
+    }
+  } catch (error) {
+    console.error(`Failed to unlock WorkNode: ${(error as Error).message}`);
+    process.exitCode = 1;
   }
+}
 
-  let failures = 0;
-  for (const result of results) {
-    if (!result.errors.length) {
-      console.log(`[ok] ${result.layout.root}`);
-    } else {
-      failures += 1;
-      console.log(`[error] ${result.layout.root}`);
-      for (const error of result.errors) {
-        console.log(`  - ${error}`);
+type TransitionCommand = "block" | "unblock" | "supersede" | "reopen";
+
+type TransitionOptions = {
+  target: string;
+  step: string | null;
+  reason?: string;
+  by?: string;
+  owner: string;
+  session?: string;
+};
+
+function parseTransitionOptions(args: string[]): TransitionOptions {
+  const options: TransitionOptions = {
+    target: process.cwd(),
+    step: null,
+    owner: defaultLockOwner()
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--reason":
+      case "--by":
+      case "--owner":
+      case "--session":
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || (value.startsWith("-") && arg !== "--reason")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--reason") {
+          options.reason = value;
+        } else if (arg === "--by") {
+          options.by = value;
+        } else if (arg === "--owner") {
+          options.owner = value;
+        } else if (arg === "--session") {
+          options.session = value;
+        } else {
+          options.target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          break;
+        }
+        if (options.step) {
+          throw new Error(`Unexpected argument '${arg}'`);
+        }
+        options.step = arg;
+        break;
       }
     }
   }
 
-  console.log(`Audit completed: ${results.length} nodes checked.`);
-  if (failures) {
-    console.log(`${failures} nodes had validation errors.`);
-    process.exitCode = 1;
+  if (!options.step) {
+    throw new Error("Missing step identifier (e.g. 1.2)");
   }
+  return options;
 }
 
-async function handleCommand(command: Command, args: string[]): Promise<void> {
-  switch (command) {
-    case "init": {
-      await handleInit(args);
-      break;
+async function handleTransition(command: TransitionCommand, args: string[]): Promise<void> {
+  let options: TransitionOptions;
+  try {
+    options = parseTransitionOptions(args);
+    if (command !== "unblock" && !options.reason) {
+      throw new Error(`${command} requires --reason`);
     }
-    case "run": {
-      await handleRun(args);
-      break;
+    if (command === "supersede" && !options.by) {
+      throw new Error("supersede requires --by <step>");
     }
-    case "audit": {
-      await handleAudit(args);
-      break;
+  } catch (error) {
+    console.error(`Invalid arguments for ${command}: ${(error as Error).message}`);
+    return;
+  }
+
+  let node: WorkNode;
+  try {
+    node = await WorkNode.loadForUpdate(options.target);
+  } catch (error) {
+    console.error(`Failed to load WorkNode at '${options.target}': ${(error as Error).message}`);
+    return;
+  }
+  node.lockOwner = options.owner;
+  node.lockSession = options.session ?? defaultLockSession();
+  node.command = command;
+
+  const stepId = options.step as string;
+  try {
+    let entry: StateRow;
+    switch (command) {
+      case "block":
+        entry = await node.transitionStep(stepId, "blocked", { reason: options.reason });
+        break;
+      case "unblock":
+        entry = await node.unblockStep(stepId, { reason: options.reason });
+        break;
+      case "supersede":
+        entry = await node.transitionStep(stepId, "superseded", { reason: options.reason, by: options.by });
+        break;
+      case "reopen":
+        entry = await node.reopenStep(stepId, { reason: options.reason });
+        break;
     }
-    case "status": {
-      console.log(`The '${command}' command is not implemented yet.`);
-      console.log("Please consult the documentation under docs/work/ for the WorkTree protocol.");
+    console.log(`Step ${entry.step} (${entry.label}) is now ${entry.status}.`);
+  } catch (error) {
+    console.error(`Failed to ${command} step ${stepId}: ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type LogEntryOptions = {
+  target: string;
+  step?: string;
+  text: string | null;
+  owner: string;
+  session?: string;
+};
+
+function parseLogEntryOptions(args: string[]): LogEntryOptions {
+  const options: LogEntryOptions = {
+    target: process.cwd(),
+    text: null,
+    owner: defaultLockOwner()
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--step":
+      case "--owner":
+      case "--session":
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--step") {
+          options.step = value;
+        } else if (arg === "--owner") {
+          options.owner = value;
+        } else if (arg === "--session") {
+          options.session = value;
+        } else {
+          options.target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      default: {
+        if (options.text !== null) {
+          throw new Error(`Unexpected argument '${arg}'; quote the text as a single argument`);
+        }
+        options.text = arg;
+        break;
+      }
+    }
+  }
+
+  if (!options.text || !options.text.trim()) {
+    throw new Error("Missing text to append");
+  }
+  return options;
+}
+
+async function handleLogEntry(command: "note" | "outcome", args: string[]): Promise<void> {
+  let options: LogEntryOptions;
+  try {
+    options = parseLogEntryOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for ${command}: ${(error as Error).message}`);
+    return;
+  }
+
+  let node: WorkNode;
+  try {
+    node = await WorkNode.loadForUpdate(options.target);
+  } catch (error) {
+    console.error(`Failed to load WorkNode at '${options.target}': ${(error as Error).message}`);
+    return;
+  }
+  node.lockOwner = options.owner;
+  node.lockSession = options.session ?? defaultLockSession();
+  node.command = command;
+
+  try {
+    const text = options.text as string;
+    const entry =
+      command === "note" ? await node.appendNote(text, options.step) : await node.appendOutcome(text, options.step);
+    const section = command === "note" ? "Notes" : "Outcomes";
+    console.log(`Appended to ${section} of ${node.locateLog(entry).relative}.`);
+  } catch (error) {
+    console.error(`Failed to append ${command}: ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type PlanCommandOptions = {
+  action: "add" | "remove";
+  target: string;
+  owner: string;
+  session?: string;
+  phase: number | null;
+  label: string | null;
+  step?: string;
+  details: string[];
+  dependsOn: string[];
+};
+
+function parsePlanCommandOptions(args: string[]): PlanCommandOptions {
+  const [action, ...rest] = args;
+  if (action !== "add" && action !== "remove") {
+    throw new Error("Expected 'add' or 'remove' after plan");
+  }
+  const options: PlanCommandOptions = {
+    action,
+    target: process.cwd(),
+    owner: defaultLockOwner(),
+    phase: null,
+    label: null,
+    details: [],
+    dependsOn: []
+  };
+  let targetGiven = false;
+
+  for (let i = 0; i < rest.length; i += 1) {
+    const arg = rest[i];
+    switch (arg) {
+      case "--phase": {
+        const value = rest[i + 1];
+        const phase = Number(value);
+        if (!value || !Number.isInteger(phase) || phase < 0) {
+          throw new Error(`Expected a non-negative integer after ${arg}`);
+        }
+        options.phase = phase;
+        i += 1;
+        break;
+      }
+      case "--label":
+      case "--detail":
+      case "--depends":
+      case "--step":
+      case "--owner":
+      case "--session":
+      case "--target":
+      case "--node": {
+        const value = rest[i + 1];
+        if (!value || (value.startsWith("-") && arg !== "--label" && arg !== "--detail")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--label") {
+          options.label = value;
+        } else if (arg === "--detail") {
+          options.details.push(value);
+        } else if (arg === "--depends") {
+          options.dependsOn.push(...value.split(",").map((dependency) => dependency.trim()).filter(Boolean));
+        } else if (arg === "--step") {
+          options.step = value;
+        } else if (arg === "--owner") {
+          options.owner = value;
+        } else if (arg === "--session") {
+          options.session = value;
+        } else {
+          options.target = path.resolve(value);
+          targetGiven = true;
+        }
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-") || targetGiven) {
+          throw new Error(`Unexpected argument '${arg}'`);
+        }
+        if (options.action === "remove" && !options.step) {
+          options.step = arg;
+        } else {
+          options.target = path.resolve(arg);
+          targetGiven = true;
+        }
+        break;
+      }
+    }
+  }
+
+  if (options.action === "add" && (options.phase === null || !options.label)) {
+    throw new Error("plan add requires --phase and --label");
+  }
+  if (options.action === "remove" && !options.step) {
+    throw new Error("Missing step identifier (e.g. 1.2)");
+  }
+  return options;
+}
+
+async function handlePlan(args: string[]): Promise<void> {
+  let options: PlanCommandOptions;
+  try {
+    options = parsePlanCommandOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for plan: ${(error as Error).message}`);
+    return;
+  }
+
+  let node: WorkNode;
+  try {
+    node = await WorkNode.loadForUpdate(options.target);
+  } catch (error) {
+    console.error(`Failed to load WorkNode at '${options.target}': ${(error as Error).message}`);
+    return;
+  }
+  node.lockOwner = options.owner;
+  node.lockSession = options.session ?? defaultLockSession();
+  node.command = `plan ${options.action}`;
+
+  try {
+    if (options.action === "add") {
+      const entry = await node.addStep({
+        phase: options.phase as number,
+        label: options.label as string,
+        step: options.step,
+        details: options.details,
+        dependsOn: options.dependsOn
+      });
+      console.log(`Added step ${entry.step} (${entry.label}) to PLAN.md and STATE.md.`);
+    } else {
+      const entry = await node.removeStep(options.step as string);
+      console.log(`Removed step ${entry.step} (${entry.label}) from PLAN.md and STATE.md.`);
+    }
+  } catch (error) {
+    console.error(`Failed to ${options.action} plan step: ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type MigrateOptions = {
+  action: "renumber" | "relabel";
+  target: string;
+  owner: string;
+  session?: string;
+  step: string;
+  value: string;
+  reason?: string;
+};
+
+function parseMigrateOptions(args: string[]): MigrateOptions {
+  const [action, ...rest] = args;
+  if (action !== "renumber" && action !== "relabel") {
+    throw new Error("Expected 'renumber' or 'relabel' after migrate");
+  }
+  let target = process.cwd();
+  let owner = defaultLockOwner();
+  let session: string | undefined;
+  let reason: string | undefined;
+  const positionals: string[] = [];
+
+  for (let i = 0; i < rest.length; i += 1) {
+    const arg = rest[i];
+    switch (arg) {
+      case "--reason":
+      case "--owner":
+      case "--session":
+      case "--target":
+      case "--node": {
+        const value = rest[i + 1];
+        if (!value || (value.startsWith("-") && arg !== "--reason")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--reason") {
+          reason = value;
+        } else if (arg === "--owner") {
+          owner = value;
+        } else if (arg === "--session") {
+          session = value;
+        } else {
+          target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      default:
+        positionals.push(arg);
+        break;
+    }
+  }
+
+  if (positionals.length !== 2) {
+    throw new Error(
+      action === "renumber"
+        ? "Expected the old and new step identifiers (e.g. renumber 1.3 1.4)"
+        : 'Expected a step identifier and the new label (e.g. relabel 1.3 "New label")'
+    );
+  }
+  return { action, target, owner, session, step: positionals[0], value: positionals[1], reason };
+}
+
+async function handleMigrate(args: string[]): Promise<void> {
+  let options: MigrateOptions;
+  try {
+    options = parseMigrateOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for migrate: ${(error as Error).message}`);
+    return;
+  }
+
+  let node: WorkNode;
+  try {
+    node = await WorkNode.loadForUpdate(options.target);
+  } catch (error) {
+    console.error(`Failed to load WorkNode at '${options.target}': ${(error as Error).message}`);
+    return;
+  }
+  node.lockOwner = options.owner;
+  node.lockSession = options.session ?? defaultLockSession();
+  node.command = `migrate ${options.action}`;
+
+  try {
+    if (options.action === "renumber") {
+      const entry = await node.renumberStep(options.step, options.value, { reason: options.reason });
+      console.log(`Renumbered step ${options.step} to ${entry.step} (${entry.label}); recorded in ${MIGRATIONS_FILENAME}.`);
+    } else {
+      const entry = await node.relabelStep(options.step, options.value, { reason: options.reason });
+      console.log(`Relabeled step ${entry.step} to '${entry.label}'; recorded in ${MIGRATIONS_FILENAME}.`);
+    }
+  } catch (error) {
+    console.error(`Failed to ${options.action} step ${options.step}: ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type FixOptions = {
+  target: string;
+  owner: string;
+  session?: string;
+  dryRun: boolean;
+};
+
+function parseFixOptions(args: string[]): FixOptions {
+  const options: FixOptions = {
+    target: process.cwd(),
+    owner: defaultLockOwner(),
+    dryRun: false
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--owner":
+      case "--session":
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--owner") {
+          options.owner = value;
+        } else if (arg === "--session") {
+          options.session = value;
+        } else {
+          options.target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleFix(args: string[]): Promise<void> {
+  let options: FixOptions;
+  try {
+    options = parseFixOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for fix: ${(error as Error).message}`);
+    return;
+  }
+
+  let plan: WorkNodeFixPlan;
+  try {
+    if (!options.dryRun) {
+      await recoverWorkNodeTransaction(await validateWorkNodeLayout(options.target));
+    }
+    plan = await planWorkNodeFixes(options.target);
+  } catch (error) {
+    console.error(`Failed to compute fixes for '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const patch of plan.patches) {
+    console.log(formatUnifiedDiff(patch));
+  }
+  for (const fix of plan.fixes) {
+    console.log(`[fix] ${fix.ruleId}: ${fix.description}`);
+  }
+  for (const refusal of plan.refused) {
+    console.log(`[refused] ${refusal.ruleId}: ${refusal.description}`);
+  }
+
+  if (!plan.fixes.length) {
+    console.log(plan.refused.length ? "No safe fixes available." : "Nothing to fix.");
+  } else if (options.dryRun) {
+    console.log(`Dry run: ${plan.fixes.length} fixes would change ${plan.patches.length} files; nothing was written.`);
+  } else {
+    try {
+      await applyWorkNodeFixes(plan, options.owner, undefined, options.session ?? defaultLockSession());
+      console.log(`Applied ${plan.fixes.length} fixes to ${plan.patches.length} files.`);
+    } catch (error) {
+      console.error(`Failed to apply fixes: ${(error as Error).message}`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+  if (plan.refused.length) {
+    process.exitCode = 1;
+  }
+}
+
+type WatchCommandOptions = {
+  target: string;
+  debounceMs?: number;
+  rescanIntervalMs?: number;
+};
+
+function parseWatchOptions(args: string[]): WatchCommandOptions {
+  const options: WatchCommandOptions = { target: process.cwd() };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--debounce":
+        options.debounceMs = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--interval":
+        options.rescanIntervalMs = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleWatch(args: string[]): Promise<void> {
+  let options: WatchCommandOptions;
+  try {
+    options = parseWatchOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for watch: ${(error as Error).message}`);
+    return;
+  }
+
+  const controller = new AbortController();
+  const stop = (): void => controller.abort();
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  try {
+    await watchWorkNodes(options.target, (event) => process.stdout.write(`${JSON.stringify(event)}\n`), {
+      debounceMs: options.debounceMs,
+      rescanIntervalMs: options.rescanIntervalMs,
+      signal: controller.signal
+    });
+  } catch (error) {
+    console.error(`Failed to watch '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type ServeCommandOptions = {
+  target: string;
+  port: number;
+  host: string;
+  allowForce: boolean;
+};
+
+function parseServeOptions(args: string[]): ServeCommandOptions {
+  const options: ServeCommandOptions = {
+    target: process.cwd(),
+    port: DEFAULT_SERVER_PORT,
+    host: "127.0.0.1",
+    allowForce: false
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--port": {
+        const value = args[i + 1];
+        const port = Number(value);
+        if (!value || !Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`${arg} expects a port number between 0 and 65535`);
+        }
+        options.port = port;
+        i += 1;
+        break;
+      }
+      case "--host": {
+        const value = args[i + 1];
+        if (!value || !LOOPBACK_HOSTS.has(value)) {
+          throw new Error(`${arg} must be a loopback address (127.0.0.1, ::1, or localhost)`);
+        }
+        options.host = value;
+        i += 1;
+        break;
+      }
+      case "--allow-force":
+        options.allowForce = true;
+        break;
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleServe(args: string[]): Promise<void> {
+  let options: ServeCommandOptions;
+  try {
+    options = parseServeOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for serve: ${(error as Error).message}`);
+    return;
+  }
+
+  const server = createWorkTreeServer(options.target, { toolVersion: pkg.version, allowForce: options.allowForce });
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(options.port, options.host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+  } catch (error) {
+    console.error(`Failed to serve '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const address = server.address();
+  const port = address && typeof address === "object" ? address.port : options.port;
+  const host = options.host.includes(":") ? `[${options.host}]` : options.host;
+  console.log(`Serving ${options.target} at http://${host}:${port}/`);
+  const stop = (): void => {
+    server.close();
+    server.closeAllConnections();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+}
+
+type McpCommandOptions = {
+  target: string;
+  owner?: string;
+  ttlSeconds?: number;
+  allowForce: boolean;
+};
+
+function parseMcpOptions(args: string[]): McpCommandOptions {
+  const options: McpCommandOptions = { target: process.cwd(), allowForce: false };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--owner": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.owner = value;
+        i += 1;
+        break;
+      }
+      case "--ttl":
+        options.ttlSeconds = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--allow-force":
+        options.allowForce = true;
+        break;
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleMcp(args: string[]): Promise<void> {
+  let options: McpCommandOptions;
+  try {
+    options = parseMcpOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for mcp: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    await validateWorkNodeLayout(options.target);
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+    return;
+  }
+
+  // stdout carries the JSON-RPC stream; anything else goes to stderr.
+  await serveMcpStdio(options.target, {
+    owner: options.owner,
+    ttlSeconds: options.ttlSeconds,
+    toolVersion: pkg.version,
+    allowForce: options.allowForce
+  });
+}
+
+type PromptCommandOptions = {
+  target: string;
+  templatePath?: string;
+  maxTokens?: number;
+};
+
+function parsePromptOptions(args: string[]): PromptCommandOptions {
+  const options: PromptCommandOptions = { target: process.cwd() };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--template": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.templatePath = path.resolve(value);
+        i += 1;
+        break;
+      }
+      case "--max-tokens":
+        options.maxTokens = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handlePrompt(args: string[]): Promise<void> {
+  let options: PromptCommandOptions;
+  try {
+    options = parsePromptOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for prompt: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    const prompt = await renderStepPrompt(options.target, {
+      templatePath: options.templatePath,
+      maxTokens: options.maxTokens
+    });
+    process.stdout.write(prompt.text.endsWith("\n") ? prompt.text : `${prompt.text}\n`);
+    if (prompt.trimmed.length) {
+      console.error(`Trimmed ${prompt.trimmed.join(", ")} to fit ${options.maxTokens} tokens (about ${prompt.tokens}).`);
+    }
+    if (prompt.overBudget) {
+      console.error(`Prompt is still about ${prompt.tokens} tokens, over the ${options.maxTokens}-token budget.`);
+    }
+  } catch (error) {
+    console.error(`Failed to render prompt for '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type ExecCommandOptions = {
+  target: string;
+  agent: string;
+  maxSteps: number;
+  owner?: string;
+  ttlSeconds?: number;
+  templatePath?: string;
+  maxTokens?: number;
+};
+
+const EXEC_STOP_REASONS: Record<ExecResult["stopReason"], string> = {
+  "max-steps": "step limit reached",
+  "no-actionable-step": "no actionable steps remain",
+  "step-failed": "a step failed its run checks",
+  "step-not-completed": "the last step was not completed"
+};
+
+function parseExecOptions(args: string[]): ExecCommandOptions {
+  const options: Omit<ExecCommandOptions, "agent"> = { target: process.cwd(), maxSteps: 1 };
+  let agent: string | undefined;
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--agent":
+      case "--owner":
+      case "--template":
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || (value.startsWith("-") && arg !== "--agent")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--agent") {
+          agent = value;
+        } else if (arg === "--owner") {
+          options.owner = value;
+        } else if (arg === "--template") {
+          options.templatePath = path.resolve(value);
+        } else {
+          options.target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      case "--max-steps":
+        options.maxSteps = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--ttl":
+        options.ttlSeconds = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--max-tokens":
+        options.maxTokens = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  if (!agent) {
+    throw new Error("exec requires --agent <command>");
+  }
+  return { ...options, agent };
+}
+
+async function handleExec(args: string[]): Promise<void> {
+  let options: ExecCommandOptions;
+  try {
+    options = parseExecOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for exec: ${(error as Error).message}`);
+    return;
+  }
+
+  let result: ExecResult;
+  try {
+    result = await execWorkNodeSteps(options.target, {
+      agent: options.agent,
+      maxSteps: options.maxSteps,
+      owner: options.owner,
+      ttlSeconds: options.ttlSeconds,
+      templatePath: options.templatePath,
+      maxTokens: options.maxTokens,
+      onStepStart: (step) => console.log(`Running step ${step.step} (${step.label}) with: ${options.agent}`)
+    });
+  } catch (error) {
+    console.error(`Failed to exec on '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const step of result.steps) {
+    const exit = step.signal ? `signal ${step.signal}` : `exit ${step.exitCode}`;
+    console.log(`[${step.passed ? "pass" : "fail"}] ${step.step.step} ${step.step.label} → ${step.status} (${exit})`);
+    step.violations.forEach((violation) => console.log(`  - ${violation}`));
+  }
+  const failed = result.steps.filter((step) => !step.passed).length;
+  console.log(
+    `Exec summary: ${result.steps.length} step(s) run, ${result.steps.length - failed} passed, ${failed} failed; ` +
+      `stopped because ${EXEC_STOP_REASONS[result.stopReason]}.`
+  );
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
+type ExportCommandOptions = {
+  target: string;
+  format: ExportFormat;
+  outPath?: string;
+};
+
+function parseExportOptions(args: string[]): ExportCommandOptions {
+  const options: ExportCommandOptions = { target: process.cwd(), format: "json" };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--format": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+          throw new Error(`Unknown format '${value}' (expected one of ${EXPORT_FORMATS.join(", ")})`);
+        }
+        options.format = value as ExportFormat;
+        i += 1;
+        break;
+      }
+      case "--out":
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--out") {
+          options.outPath = path.resolve(value);
+        } else {
+          options.target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleExport(args: string[]): Promise<void> {
+  let options: ExportCommandOptions;
+  try {
+    options = parseExportOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for export: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    const document = await exportWorkTree(options.target, { toolVersion: pkg.version });
+    const text = `${JSON.stringify(document, null, 2)}\n`;
+    if (options.outPath) {
+      await atomicWriteFile(options.outPath, text);
+      console.log(`Exported ${document.nodes.length} WorkNode(s) from ${options.target} to ${options.outPath}`);
+    } else {
+      process.stdout.write(text);
+    }
+  } catch (error) {
+    console.error(`Failed to export '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type ImportCommandOptions = {
+  file: string;
+  target: string;
+  force: boolean;
+};
+
+function parseImportOptions(args: string[]): ImportCommandOptions {
+  let file: string | undefined;
+  let target: string | undefined;
+  let force = false;
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--force":
+        force = true;
+        break;
+      case "--target": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        if (file) {
+          throw new Error(`Unexpected argument '${arg}'`);
+        }
+        file = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  if (!file) {
+    throw new Error("import requires an export file");
+  }
+  if (!target) {
+    throw new Error("import requires --target <dir>");
+  }
+  return { file, target, force };
+}
+
+async function handleImport(args: string[]): Promise<void> {
+  let options: ImportCommandOptions;
+  try {
+    options = parseImportOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for import: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    const contents = await fs.readFile(options.file, "utf8");
+    let document: unknown;
+    try {
+      document = JSON.parse(contents);
+    } catch (error) {
+      throw new Error(`${options.file} is not valid JSON: ${(error as Error).message}`);
+    }
+    const result = await importWorkTree(document, options.target, { overwrite: options.force });
+    for (const layout of result.nodes) {
+      console.log(`Imported ${layout.root}`);
+    }
+    console.log(`Imported ${result.nodes.length} WorkNode(s) (${result.files.length} files) into ${options.target}`);
+  } catch (error) {
+    console.error(`Failed to import '${options.file}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type GraphCommandOptions = {
+  target: string;
+  format: GraphFormat;
+  collapseCompleted: boolean;
+  maxDepth?: number;
+};
+
+function parseGraphOptions(args: string[]): GraphCommandOptions {
+  const options: GraphCommandOptions = { target: process.cwd(), format: "mermaid", collapseCompleted: false };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--format": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (!GRAPH_FORMATS.includes(value as GraphFormat)) {
+          throw new Error(`Unknown format '${value}' (expected one of ${GRAPH_FORMATS.join(", ")})`);
+        }
+        options.format = value as GraphFormat;
+        i += 1;
+        break;
+      }
+      case "--collapse-completed":
+        options.collapseCompleted = true;
+        break;
+      case "--depth":
+        options.maxDepth = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleGraph(args: string[]): Promise<void> {
+  let options: GraphCommandOptions;
+  try {
+    options = parseGraphOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for graph: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    const graph = await buildWorkGraph(options.target, {
+      collapseCompleted: options.collapseCompleted,
+      maxDepth: options.maxDepth
+    });
+    if (!graph.clusters.length) {
+      console.error(`No WorkNodes found under ${options.target}.`);
+      process.exitCode = 1;
+      return;
+    }
+    process.stdout.write(formatWorkGraph(options.format, graph));
+    graph.warnings.forEach((warning) => console.error(`Warning: ${warning}`));
+  } catch (error) {
+    console.error(`Failed to graph '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type ReportCommandOptions = {
+  target: string;
+  format: ProgressReportFormat;
+  windowDays?: number;
+};
+
+function parseReportOptions(args: string[]): ReportCommandOptions {
+  const options: ReportCommandOptions = { target: process.cwd(), format: "text" };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--format": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (!PROGRESS_REPORT_FORMATS.includes(value as ProgressReportFormat)) {
+          throw new Error(`Unknown format '${value}' (expected one of ${PROGRESS_REPORT_FORMATS.join(", ")})`);
+        }
+        options.format = value as ProgressReportFormat;
+        i += 1;
+        break;
+      }
+      case "--window":
+        options.windowDays = parsePositiveInteger(arg, args[i + 1]);
+        i += 1;
+        break;
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  return options;
+}
+
+async function handleReport(args: string[]): Promise<void> {
+  let options: ReportCommandOptions;
+  try {
+    options = parseReportOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for report: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    const report = await buildProgressReport(options.target, { windowDays: options.windowDays });
+    console.log(formatProgressReport(options.format, report));
+  } catch (error) {
+    console.error(`Failed to build report for '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type SiteCommandOptions = {
+  target: string;
+  outDir: string;
+};
+
+function parseSiteOptions(args: string[]): SiteCommandOptions {
+  const options: Omit<SiteCommandOptions, "outDir"> = { target: process.cwd() };
+  let outDir: string | undefined;
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--out":
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        if (arg === "--out") {
+          outDir = path.resolve(value);
+        } else {
+          options.target = path.resolve(value);
+        }
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        options.target = path.resolve(arg);
+        break;
+      }
+    }
+  }
+
+  if (!outDir) {
+    throw new Error("site requires --out <dir>");
+  }
+  return { ...options, outDir };
+}
+
+async function handleSite(args: string[]): Promise<void> {
+  let options: SiteCommandOptions;
+  try {
+    options = parseSiteOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for site: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    const result = await generateWorkTreeSite(options.target, options.outDir, { toolVersion: pkg.version });
+    if (!result.nodes) {
+      console.error(`No WorkNodes found under ${options.target}.`);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`Wrote ${result.pages.length} page(s) for ${result.nodes} WorkNode(s) to ${options.outDir}`);
+    console.log(`Open ${path.join(options.outDir, "index.html")} in a browser.`);
+  } catch (error) {
+    console.error(`Failed to generate site for '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+type HistoryCommandOptions = {
+  target: string;
+  step: string | null;
+  json: boolean;
+  replay: boolean;
+};
+
+function parseHistoryOptions(args: string[]): HistoryCommandOptions {
+  const options: HistoryCommandOptions = { target: process.cwd(), step: null, json: false, replay: false };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case "--json":
+        options.json = true;
+        break;
+      case "--replay":
+        options.replay = true;
+        break;
+      case "--target":
+      case "--node": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${arg}`);
+        }
+        options.target = path.resolve(value);
+        i += 1;
+        break;
+      }
+      default: {
+        if (arg.startsWith("-")) {
+          throw new Error(`Unknown option '${arg}'`);
+        }
+        if (options.step) {
+          throw new Error(`Unexpected argument '${arg}'`);
+        }
+        options.step = arg;
+        break;
+      }
+    }
+  }
+
+  if (options.replay && options.step) {
+    throw new Error("--replay rebuilds the whole STATE; it does not take a step");
+  }
+  return options;
+}
+
+function formatHistoryEvent(event: WorkNodeEvent): string {
+  const change =
+    event.kind === "step-added" || event.kind === "step-removed" || event.kind === "step-updated"
+      ? `${event.from ?? "-"} -> ${event.to ?? "-"}`
+      : (event.log ?? "");
+  return `${event.ts}  ${event.actor}  ${event.command}  ${event.step} ${event.label}  ${event.kind}  ${change}`.trimEnd();
+}
+
+async function handleHistory(args: string[]): Promise<void> {
+  let options: HistoryCommandOptions;
+  try {
+    options = parseHistoryOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for history: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    const node = await WorkNode.load(options.target);
+    const events = (await readEvents(node.layout)).filter((event) => !options.step || event.step === options.step);
+
+    if (options.replay) {
+      const rows = replayEvents(events);
+      const drift = findJournalDrift(events, node.state.entries);
+      if (options.json) {
+        console.log(JSON.stringify({ rows, drift }, null, 2));
+      } else {
+        console.log("| Phase | Step | Label | Status | Progress Log |");
+        console.log("| ----- | ---- | ----- | ------ | ------------ |");
+        rows.forEach((row) => console.log(formatStateRow(row)));
+        if (drift.length) {
+          console.log(`\nSTATE.md differs from ${EVENTS_FILENAME}:`);
+          drift.forEach((entry) => console.log(`  - ${entry.message}`));
+        }
+      }
+      if (drift.length) {
+        process.exitCode = 1;
+      }
+      return;
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(events, null, 2));
+    } else if (!events.length) {
+      console.log(options.step ? `No events recorded for step ${options.step}.` : `No events recorded in ${EVENTS_FILENAME}.`);
+    } else {
+      events.forEach((event) => console.log(formatHistoryEvent(event)));
+    }
+  } catch (error) {
+    console.error(`Failed to read history of '${options.target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
+
+async function handleInit(args: string[]): Promise<void> {
+  let options: InitOptions;
+  try {
+    options = parseInitOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for init: ${(error as Error).message}`);
+    return;
+  }
+
+  try {
+    await WorkNode.initialize(options.target);
+    console.log(`Initialized a new WorkNode at ${options.target}`);
+    console.log("Run `worktree run` inside that directory to begin the first step.");
+  } catch (error) {
+    console.error(`Failed to initialize WorkNode: ${(error as Error).message}`);
+  }
+}
+
+type AuditOptions = {
+  target: string;
+  since: string | null;
+  format: AuditReportFormat;
+};
+
+function parseAuditOptions(args: string[]): AuditOptions {
+  const options: AuditOptions = {
+    target: extractTargetOption(args, META_NODE_ROOT),
+    since: null,
+    format: "text"
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    switch (args[i]) {
+      case "--since": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${args[i]}`);
+        }
+        options.since = value;
+        i += 1;
+        break;
+      }
+      case "--format": {
+        const value = args[i + 1];
+        if (!value || value.startsWith("-")) {
+          throw new Error(`Missing value after ${args[i]}`);
+        }
+        if (!AUDIT_REPORT_FORMATS.includes(value as AuditReportFormat)) {
+          throw new Error(`Unknown format '${value}' (expected one of ${AUDIT_REPORT_FORMATS.join(", ")})`);
+        }
+        options.format = value as AuditReportFormat;
+        i += 1;
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  return options;
+}
+
+async function handleAudit(args: string[]): Promise<void> {
+  let options: AuditOptions;
+  try {
+    options = parseAuditOptions(args);
+  } catch (error) {
+    console.error(`Invalid arguments for audit: ${(error as Error).message}`);
+    return;
+  }
+
+  const target = options.target;
+  let results: AuditResult[];
+  try {
+    results = options.since ? await auditWorkNodesSince(target, options.since) : await auditWorkNodes(target);
+  } catch (error) {
+    console.error(`Failed to audit '${target}': ${(error as Error).message}`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log(formatAuditReport(options.format, results, { root: target, toolVersion: pkg.version }));
+  if (results.some((result) => result.findings.some((finding) => finding.severity === "error"))) {
+    process.exitCode = 1;
+  }
+}
+
+async function handleCommand(command: Command, args: string[]): Promise<void> {
+  switch (command) {
+    case "init": {
+      await handleInit(args);
+      break;
+    }
+    case "run": {
+      await handleRun(args);
+      break;
+    }
+    case "audit": {
+      await handleAudit(args);
+      break;
+    }
+    case "status": {
+      await handleStatus(args);
+      break;
+    }
+    case "lock": {
+      await handleLock(args);
+      break;
+    }
+    case "unlock": {
+      await handleUnlock(args);
+      break;
+    }
+    case "note":
+    case "outcome": {
+      await handleLogEntry(command, args);
+      break;
+    }
+    case "block":
+    case "unblock":
+    case "supersede":
+    case "reopen": {
+      await handleTransition(command, args);
+      break;
+    }
+    case "plan": {
+      await handlePlan(args);
+      break;
+    }
+    case "migrate": {
+      await handleMigrate(args);
+      break;
+    }
+    case "fix": {
+      await handleFix(args);
+      break;
+    }
+    case "watch": {
+      await handleWatch(args);
+      break;
+    }
+    case "serve": {
+      await handleServe(args);
+      break;
+    }
+    case "mcp": {
+      await handleMcp(args);
+      break;
+    }
+    case "prompt": {
+      await handlePrompt(args);
+      break;
+    }
+    case "exec": {
+      await handleExec(args);
+      break;
+    }
+    case "export": {
+      await handleExport(args);
+      break;
+    }
+    case "import": {
+      await handleImport(args);
+      break;
+    }
+    case "graph": {
+      await handleGraph(args);
+      break;
+    }
+    case "report": {
+      await handleReport(args);
+      break;
+    }
+    case "site": {
+      await handleSite(args);
+      break;
+    }
+    case "history": {
+      await handleHistory(args);
       break;
     }
   }
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { findJournalDrift, parseEvents, readEvents, replayEvents } from "./events.js";
+import { MemoryStorage } from "./storage.js";
+import { WorkNode, collectWorkNodeFindings } from "./work-node.js";
+
+const ROOT = "/tree/api";
+const STEPS = [
+  { phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] },
+  { phase: 1, step: "1.2", label: "Write the printer", details: ["Print the output."] }
+];
+
+async function createNode(): Promise<{ node: WorkNode; storage: MemoryStorage }> {
+  const storage = new MemoryStorage();
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+  node.lockOwner = "agent";
+  node.command = "run";
+  return { node, storage };
+}
+
+test("journals each change of STATE.md and the step logs", async () => {
+  const { node, storage } = await createNode();
+  await node.createLogForStep(STEPS[0]);
+  await node.transitionStep("1.1", "in-progress");
+  await node.transitionStep("1.1", "done", { force: true });
+  await node.addStep({ phase: 1, label: "Write the docs" });
+
+  const events = await readEvents(node.layout, storage);
+  assert.deepEqual(
+    events.map((event) => [event.kind, event.step, event.from, event.to]),
+    [
+      ["step-added", "1.1", null, "todo"],
+      ["step-added", "1.2", null, "todo"],
+      ["log-created", "1.1", null, "in-progress"],
+      ["log-updated", "1.1", "in-progress", "in-progress"],
+      ["step-updated", "1.1", "todo", "in-progress"],
+      ["log-updated", "1.1", "in-progress", "done"],
+      ["step-updated", "1.1", "in-progress", "done"],
+      ["step-added", "1.3", null, "todo"]
+    ]
+  );
+  assert.ok(events.slice(2).every((event) => event.actor === "agent" && event.command === "run"));
+});
+
+test("replaying the journal reproduces STATE.md", async () => {
+  const { node, storage } = await createNode();
+  await node.transitionStep("1.1", "in-progress");
+  await node.transitionStep("1.1", "blocked", { reason: "waiting on review" });
+  await node.removeStep("1.2");
+
+  const events = await readEvents(node.layout, storage);
+  assert.deepEqual(replayEvents(events), node.state.entries);
+  assert.deepEqual(findJournalDrift(events, node.state.entries), []);
+});
+
+test("reports STATE.md edits made outside the library as journal drift", async () => {
+  const { node, storage } = await createNode();
+  const state = await storage.readFile(node.layout.statePath);
+  await storage.writeFile(node.layout.statePath, state.replace("the printer | todo |", "the printer | blocked |"));
+
+  const edited = await WorkNode.load(ROOT, storage);
+  const drift = findJournalDrift(await readEvents(node.layout, storage), edited.state.entries);
+  assert.deepEqual(drift, [
+    { step: "1.2", message: "step 1.2 was edited outside the library: status blocked (journal: todo)" }
+  ]);
+  const findings = await collectWorkNodeFindings(ROOT, storage);
+  assert.ok(findings.some((finding) => finding.ruleId === "journal-drift"));
+});
+
+test("rejects journal lines that are not events", () => {
+  const added = '{"kind":"step-added","step":"1.1","ts":"2026-01-01T00:00:00Z"}';
+  assert.throws(() => parseEvents(`${added}\n{`), /line 2 is not valid JSON/);
+  assert.throws(() => parseEvents("null\n"), /line 1 is not a WorkNode event/);
+});
@@ -0,0 +1,211 @@
+import path from "node:path";
+import { fileSystemStorage } from "./storage.js";
+import { compareStepIdentifiers } from "./work-node.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { StateRow, StepStatus, WorkNodeLayout } from "./work-node.js";
+
+export const EVENTS_FILENAME = "events.jsonl";
+
+/** `command` of the rows recorded when a journal starts on a node that already has steps. */
+export const BASELINE_EVENT_COMMAND = "baseline";
+
+export type WorkNodeEventKind =
+  | "step-added"
+  | "step-removed"
+  | "step-updated"
+  | "log-created"
+  | "log-updated"
+  | "note-added"
+  | "outcome-added";
+
+/** Kinds that change STATE.md; replaying them rebuilds it. */
+export const STATE_EVENT_KINDS: readonly WorkNodeEventKind[] = ["step-added", "step-removed", "step-updated"];
+
+export interface WorkNodeEvent {
+  ts: string;
+  /** Who made the change: the lock owner of the mutating process. */
+  actor: string;
+  /** The command that made the change, e.g. `run` or `block`. */
+  command: string;
+  kind: WorkNodeEventKind;
+  phase: number;
+  step: string;
+  label: string;
+  from: StepStatus | null;
+  to: StepStatus | null;
+  /** Progress Log cell after the change, on STATE events. */
+  progressLog?: string | null;
+  /** Node-relative log path, on log events. */
+  log?: string;
+}
+
+export type WorkNodeEventRecord = Omit<WorkNodeEvent, "ts" | "actor" | "command">;
+
+export interface EventContext {
+  actor: string;
+  command: string;
+  timestamp?: Date;
+}
+
+export function eventsPath(layout: WorkNodeLayout): string {
+  return path.join(layout.root, EVENTS_FILENAME);
+}
+
+export function parseEvents(contents: string): WorkNodeEvent[] {
+  const events: WorkNodeEvent[] = [];
+  contents.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+    let event: WorkNodeEvent;
+    try {
+      event = JSON.parse(line) as WorkNodeEvent;
+    } catch {
+      throw new Error(`${EVENTS_FILENAME} line ${index + 1} is not valid JSON`);
+    }
+    if (!event || typeof event.kind !== "string" || typeof event.step !== "string" || typeof event.ts !== "string") {
+      throw new Error(`${EVENTS_FILENAME} line ${index + 1} is not a WorkNode event`);
+    }
+    events.push(event);
+  });
+  return events;
+}
+
+export async function readEvents(
+  layout: WorkNodeLayout,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeEvent[]> {
+  try {
+    return parseEvents(await storage.readFile(eventsPath(layout)));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/** Appends records to `NODE_ROOT/events.jsonl`, creating the journal on first use. */
+export async function appendEvents(
+  layout: WorkNodeLayout,
+  records: WorkNodeEventRecord[],
+  context: EventContext,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeEvent[]> {
+  if (!records.length) {
+    return [];
+  }
+  const ts = (context.timestamp ?? new Date()).toISOString();
+  const events = records.map((record): WorkNodeEvent => ({ ts, actor: context.actor, command: context.command, ...record }));
+  const lines = events.map((event) => `${JSON.stringify(event)}\n`).join("");
+  await storage.appendFile(eventsPath(layout), lines);
+  return events;
+}
+
+function stateRecord(kind: WorkNodeEventKind, row: StateRow, from: StepStatus | null, to: StepStatus | null): WorkNodeEventRecord {
+  return {
+    kind,
+    phase: row.phase,
+    step: row.step,
+    label: row.label,
+    from,
+    to,
+    progressLog: kind === "step-removed" ? null : row.progressLog
+  };
+}
+
+/** The STATE events that turn `before` into `after`, matching rows by step identifier. */
+export function diffStateRows(before: StateRow[], after: StateRow[]): WorkNodeEventRecord[] {
+  const previous = new Map(before.map((row) => [row.step, row]));
+  const current = new Map(after.map((row) => [row.step, row]));
+  const records: WorkNodeEventRecord[] = [];
+  for (const row of before) {
+    if (!current.has(row.step)) {
+      records.push(stateRecord("step-removed", row, row.status, null));
+    }
+  }
+  for (const row of after) {
+    const old = previous.get(row.step);
+    if (!old) {
+      records.push(stateRecord("step-added", row, null, row.status));
+    } else if (old.status !== row.status || old.label !== row.label || old.progressLog !== row.progressLog || old.phase !== row.phase) {
+      records.push(stateRecord("step-updated", row, old.status, row.status));
+    }
+  }
+  return records;
+}
+
+/**
+ * Journals a STATE.md rewrite. When the node has no journal yet, its previous rows are
+ * recorded first as `baseline` additions, so replaying always starts from a known state.
+ */
+export async function recordStateChanges(
+  layout: WorkNodeLayout,
+  before: StateRow[],
+  after: StateRow[],
+  context: EventContext,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeEvent[]> {
+  const changes = diffStateRows(before, after);
+  if (!changes.length) {
+    return [];
+  }
+  const recorded: WorkNodeEvent[] = [];
+  if (before.length && (await storage.stat(eventsPath(layout))) === null) {
+    recorded.push(
+      ...(await appendEvents(layout, diffStateRows([], before), { ...context, command: BASELINE_EVENT_COMMAND }, storage))
+    );
+  }
+  recorded.push(...(await appendEvents(layout, changes, context, storage)));
+  return recorded;
+}
+
+/** Rebuilds the STATE rows a journal describes, in STATE order. */
+export function replayEvents(events: WorkNodeEvent[]): StateRow[] {
+  const rows = new Map<string, StateRow>();
+  for (const event of events) {
+    if (event.kind === "step-removed") {
+      rows.delete(event.step);
+    } else if (event.kind === "step-added" || event.kind === "step-updated") {
+      rows.set(event.step, {
+        phase: event.phase,
+        step: event.step,
+        label: event.label,
+        status: event.to ?? "todo",
+        progressLog: event.progressLog ?? null
+      });
+    }
+  }
+  return [...rows.values()].sort(compareStepIdentifiers);
+}
+
+/** Differences between STATE.md and its replayed journal, one message per step. */
+export function findJournalDrift(events: WorkNodeEvent[], state: StateRow[]): { step: string; message: string }[] {
+  const replayed = new Map(replayEvents(events).map((row) => [row.step, row]));
+  const drift: { step: string; message: string }[] = [];
+  for (const row of state) {
+    const expected = replayed.get(row.step);
+    if (!expected) {
+      drift.push({ step: row.step, message: `step ${row.step} is in STATE.md but was never recorded in ${EVENTS_FILENAME}` });
+      continue;
+    }
+    replayed.delete(row.step);
+    const differences: string[] = [];
+    if (expected.status !== row.status) {
+      differences.push(`status ${row.status} (journal: ${expected.status})`);
+    }
+    if (expected.label !== row.label) {
+      differences.push(`label '${row.label}' (journal: '${expected.label}')`);
+    }
+    if (expected.progressLog !== row.progressLog) {
+      differences.push(`Progress Log ${row.progressLog ?? "-"} (journal: ${expected.progressLog ?? "-"})`);
+    }
+    if (differences.length) {
+      drift.push({ step: row.step, message: `step ${row.step} was edited outside the library: ${differences.join(", ")}` });
+    }
+  }
+  for (const row of replayed.values()) {
+    drift.push({ step: row.step, message: `step ${row.step} is recorded in ${EVENTS_FILENAME} but missing from STATE.md` });
+  }
+  return drift;
+}
@@ -0,0 +1,181 @@
+import { spawn } from "node:child_process";
+import { promises as fs } from "node:fs";
+import { renderStepPrompt } from "./prompt.js";
+import { RunStepError, runWorkNodeStep } from "./runner.js";
+import type { RunStepResult } from "./runner.js";
+import { StepLog } from "./step-log.js";
+import { WorkNode, canonicalLogPaths, validateWorkNodeLayout } from "./work-node.js";
+import type { StateRow, StepStatus, WorkNodeLayout } from "./work-node.js";
+
+export interface ExecOptions {
+  /** Shell command of the worker; it receives the step prompt on stdin. */
+  agent: string;
+  owner?: string;
+  ttlSeconds?: number;
+  /** Number of steps to run before stopping (default 1). */
+  maxSteps?: number;
+  templatePath?: string;
+  maxTokens?: number;
+  /** Called before the worker of each step is spawned. */
+  onStepStart?: (step: StateRow) => void;
+}
+
+export interface ExecStepResult {
+  step: StateRow;
+  /** Status of the step after the worker exited. */
+  status: StepStatus;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Run invariants the worker broke; empty when the step passed. */
+  violations: string[];
+  passed: boolean;
+}
+
+export interface ExecResult {
+  steps: ExecStepResult[];
+  /** Why the loop ended: step limit, nothing left to do, or a step that failed or stayed open. */
+  stopReason: "max-steps" | "no-actionable-step" | "step-failed" | "step-not-completed";
+}
+
+const COMPLETED_STATUSES: Set<StepStatus> = new Set(["done", "superseded"]);
+
+interface NodeSnapshot {
+  rows: Map<string, string>;
+  completedLogs: Map<string, string | null>;
+}
+
+async function snapshotNode(layout: WorkNodeLayout): Promise<NodeSnapshot> {
+  const node = await WorkNode.loadFromLayout(layout);
+  const snapshot: NodeSnapshot = { rows: new Map(), completedLogs: new Map() };
+  for (const row of node.state.entries) {
+    snapshot.rows.set(row.step, JSON.stringify(row));
+    if (COMPLETED_STATUSES.has(row.status)) {
+      const log = canonicalLogPaths(layout, row).absolute;
+      snapshot.completedLogs.set(row.step, await fs.readFile(log, "utf8").catch(() => null));
+    }
+  }
+  return snapshot;
+}
+
+function runAgent(command: string, input: string, env: NodeJS.ProcessEnv): Promise<{ code: number | null; signal: NodeJS.Signals | null }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, env, stdio: ["pipe", "inherit", "inherit"] });
+    child.once("error", reject);
+    child.once("close", (code, signal) => resolve({ code, signal }));
+    // Workers that exit without reading the prompt close stdin early; that is not an error.
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * Checks what a worker left behind against the state before its run: only the run's step
+ * may change, completed steps and their logs must be untouched, and a step marked done
+ * needs Notes and Outcomes in its log.
+ */
+async function checkRunInvariants(layout: WorkNodeLayout, before: NodeSnapshot, step: StateRow): Promise<{ status: StepStatus; violations: string[] }> {
+  const violations: string[] = [];
+  let node: WorkNode;
+  try {
+    node = await WorkNode.loadFromLayout(layout);
+  } catch (error) {
+    return { status: step.status, violations: [`node no longer loads: ${(error as Error).message}`] };
+  }
+
+  const after = new Map(node.state.entries.map((row) => [row.step, row]));
+  for (const [id, row] of before.rows) {
+    const current = after.get(id);
+    if (id === step.step) {
+      continue;
+    }
+    if (!current) {
+      violations.push(`step ${id} was removed from STATE.md`);
+    } else if (JSON.stringify(current) !== row) {
+      violations.push(`step ${id} changed in STATE.md during the run of ${step.step}`);
+    }
+  }
+  for (const id of after.keys()) {
+    if (!before.rows.has(id)) {
+      violations.push(`step ${id} was added to STATE.md during the run of ${step.step}`);
+    }
+  }
+  for (const [id, contents] of before.completedLogs) {
+    const row = after.get(id);
+    const current = row ? await fs.readFile(canonicalLogPaths(layout, row).absolute, "utf8").catch(() => null) : null;
+    if (current !== contents) {
+      violations.push(`log of completed step ${id} was modified`);
+    }
+  }
+
+  const current = after.get(step.step);
+  if (!current) {
+    return { status: step.status, violations: [...violations, `step ${step.step} disappeared from STATE.md`] };
+  }
+  if (current.status === "done") {
+    const contents = await fs.readFile(canonicalLogPaths(layout, current).absolute, "utf8").catch(() => null);
+    const log = contents === null ? null : StepLog.parse(contents);
+    if (!log?.notes.length) {
+      violations.push(`step ${step.step} is done but its log has no Notes`);
+    }
+    if (!log?.outcomes.length) {
+      violations.push(`step ${step.step} is done but its log has no Outcomes`);
+    }
+  }
+  return { status: current.status, violations };
+}
+
+/**
+ * Runs an external worker on a node, one step at a time: starts the next actionable step
+ * as `worktree run` does, spawns `agent` with the step prompt on stdin and NODE_ROOT in
+ * its environment, then checks the run invariants. The loop stops after `maxSteps`, when
+ * no step is left, or at the first step that fails or is not completed.
+ */
+export async function execWorkNodeSteps(root: string, options: ExecOptions): Promise<ExecResult> {
+  const layout = await validateWorkNodeLayout(root);
+  const maxSteps = options.maxSteps ?? 1;
+  const steps: ExecStepResult[] = [];
+
+  while (steps.length < maxSteps) {
+    const before = await snapshotNode(layout);
+    let run: RunStepResult;
+    try {
+      run = await runWorkNodeStep(layout.root, { command: "exec", owner: options.owner, ttlSeconds: options.ttlSeconds });
+    } catch (error) {
+      if (error instanceof RunStepError && error.code === "no-actionable-step") {
+        return { steps, stopReason: "no-actionable-step" };
+      }
+      throw error;
+    }
+    const prompt = await renderStepPrompt(layout.root, { templatePath: options.templatePath, maxTokens: options.maxTokens });
+    options.onStepStart?.(run.step);
+
+    const { code, signal } = await runAgent(options.agent, prompt.text, {
+      ...process.env,
+      NODE_ROOT: layout.root,
+      WORKTREE_STEP: run.step.step,
+      WORKTREE_LOG: canonicalLogPaths(layout, run.step).absolute,
+      WORKTREE_SESSION: run.session,
+      ...(options.owner ? { WORKTREE_OWNER: options.owner } : {})
+    });
+    const { status, violations } = await checkRunInvariants(layout, before, run.step);
+    if (code !== 0) {
+      violations.unshift(signal ? `agent was terminated by ${signal}` : `agent exited with code ${code}`);
+    }
+    const result: ExecStepResult = {
+      step: run.step,
+      status,
+      exitCode: code,
+      signal,
+      violations,
+      passed: violations.length === 0
+    };
+    steps.push(result);
+    if (!result.passed) {
+      return { steps, stopReason: "step-failed" };
+    }
+    if (!COMPLETED_STATUSES.has(status)) {
+      return { steps, stopReason: "step-not-completed" };
+    }
+  }
+  return { steps, stopReason: "max-steps" };
+}
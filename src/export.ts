@@ -0,0 +1,389 @@
+import path from "node:path";
+import { eventsPath, recordStateChanges } from "./events.js";
+import { defaultLockOwner } from "./lock.js";
+import { StepLog } from "./step-log.js";
+import { fileSystemStorage } from "./storage.js";
+import {
+  STEP_STATUSES,
+  WorkNode,
+  WorkState,
+  buildPlanMarkdown,
+  buildWorkNodeRelations,
+  canonicalLogPaths,
+  discoverWorkNodes,
+  ensurePlanStateConsistency,
+  formatStateRow,
+  parsePlanContent,
+  parseStateContent,
+  writeState
+} from "./work-node.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { PlanStep, StateRow, StepStatus, WorkNodeLayout } from "./work-node.js";
+
+export const EXPORT_FORMATS = ["json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const WORKTREE_EXPORT_VERSION = 1;
+
+/** `$schema` of version 1 documents; the schema itself is published as schemas/worktree-export.v1.json. */
+export const WORKTREE_EXPORT_SCHEMA = "urn:worktree:export:v1";
+
+export interface ExportedLog {
+  /** Path relative to the node root, e.g. `logs/p1-s1.2.md`. */
+  path: string;
+  phase: number;
+  step: string;
+  label: string;
+  status: StepStatus;
+  started: string;
+  completed: string | null;
+  /** Every header field of the log, keyed by lower-cased name. */
+  headers: Record<string, string>;
+  contents: string;
+}
+
+export interface ExportedNode {
+  /** Path relative to the export root, `.` for the root itself. */
+  path: string;
+  parent: string | null;
+  children: string[];
+  plan: {
+    steps: PlanStep[];
+    /** PLAN.md as written; import regenerates it from `steps` when absent. */
+    contents?: string;
+  };
+  state: StateRow[];
+  logs: ExportedLog[];
+}
+
+export interface WorkTreeExport {
+  $schema: string;
+  version: number;
+  tool: { name: string; version: string };
+  exportedAt: string;
+  nodes: ExportedNode[];
+}
+
+export interface ExportOptions {
+  toolVersion?: string;
+  storage?: WorkNodeStorage;
+  now?: Date;
+}
+
+export interface ImportOptions {
+  /** Replace nodes that already exist under the target instead of refusing. */
+  overwrite?: boolean;
+  /** Actor of the `import` events journaled for each node (default: the local lock owner). */
+  owner?: string;
+  storage?: WorkNodeStorage;
+}
+
+export interface ImportResult {
+  nodes: WorkNodeLayout[];
+  /** Absolute paths of every file written. */
+  files: string[];
+}
+
+function toPosix(relative: string): string {
+  return relative.split(path.sep).join("/");
+}
+
+function relativeNode(root: string, node: string): string {
+  return toPosix(path.relative(root, node)) || ".";
+}
+
+/**
+ * Serializes every WorkNode under `root` into one versioned document: layout-relative
+ * paths, parent/child relations, plan steps, STATE rows, and each log with its parsed
+ * headers and contents. A node that fails to load aborts the export.
+ */
+export async function exportWorkTree(root: string, options: ExportOptions = {}): Promise<WorkTreeExport> {
+  const storage = options.storage ?? fileSystemStorage;
+  const exportRoot = path.resolve(root);
+  const relations = buildWorkNodeRelations(await discoverWorkNodes(exportRoot, storage));
+  const nodes: ExportedNode[] = [];
+
+  for (const relation of relations) {
+    const id = relativeNode(exportRoot, relation.layout.root);
+    let node: WorkNode;
+    try {
+      node = await WorkNode.loadFromLayout(relation.layout, storage);
+    } catch (error) {
+      throw new Error(`cannot export node ${id}: ${(error as Error).message}`);
+    }
+    nodes.push({
+      path: id,
+      parent: relation.parent ? relativeNode(exportRoot, relation.parent.root) : null,
+      children: relation.children.map((child) => relativeNode(exportRoot, child.root)),
+      plan: {
+        steps: node.plan.steps.map((step) => ({ ...step, details: step.details ?? [], dependsOn: step.dependsOn ?? [] })),
+        contents: await storage.readFile(relation.layout.planPath)
+      },
+      state: node.state.entries,
+      logs: node.logs.map((log) => ({
+        path: log.logPath,
+        phase: log.phase,
+        step: log.step,
+        label: log.label,
+        status: log.status,
+        started: log.started,
+        completed: log.completed ?? null,
+        headers: Object.fromEntries(log.document.headers.map((field) => [field.key, field.value])),
+        contents: log.document.toString()
+      }))
+    });
+  }
+
+  return {
+    $schema: WORKTREE_EXPORT_SCHEMA,
+    version: WORKTREE_EXPORT_VERSION,
+    tool: { name: "worktree", version: options.toolVersion ?? "" },
+    exportedAt: (options.now ?? new Date()).toISOString(),
+    nodes
+  };
+}
+
+function expectObject(value: unknown, where: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${where} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, where: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${where} must be an array`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, where: string): string {
+  if (typeof value !== "string") {
+    throw new Error(`${where} must be a string`);
+  }
+  return value;
+}
+
+function expectPhase(value: unknown, where: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${where} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function expectStatus(value: unknown, where: string): StepStatus {
+  if (!STEP_STATUSES.includes(value as StepStatus)) {
+    throw new Error(`${where} must be one of ${STEP_STATUSES.join(", ")}`);
+  }
+  return value as StepStatus;
+}
+
+function optionalStrings(value: unknown, where: string): string[] {
+  return value === undefined ? [] : expectArray(value, where).map((item, index) => expectString(item, `${where}[${index}]`));
+}
+
+function readPlanStep(value: unknown, where: string): PlanStep {
+  const raw = expectObject(value, where);
+  return {
+    phase: expectPhase(raw.phase, `${where}.phase`),
+    step: expectString(raw.step, `${where}.step`),
+    label: expectString(raw.label, `${where}.label`),
+    details: optionalStrings(raw.details, `${where}.details`),
+    dependsOn: optionalStrings(raw.dependsOn, `${where}.dependsOn`)
+  };
+}
+
+function readStateRow(value: unknown, where: string): StateRow {
+  const raw = expectObject(value, where);
+  return {
+    phase: expectPhase(raw.phase, `${where}.phase`),
+    step: expectString(raw.step, `${where}.step`),
+    label: expectString(raw.label, `${where}.label`),
+    status: expectStatus(raw.status, `${where}.status`),
+    progressLog: raw.progressLog === null || raw.progressLog === undefined ? null : expectString(raw.progressLog, `${where}.progressLog`)
+  };
+}
+
+function readLog(value: unknown, where: string): ExportedLog {
+  const raw = expectObject(value, where);
+  const headers = raw.headers === undefined ? {} : expectObject(raw.headers, `${where}.headers`);
+  return {
+    path: expectString(raw.path, `${where}.path`),
+    phase: expectPhase(raw.phase, `${where}.phase`),
+    step: expectString(raw.step, `${where}.step`),
+    label: raw.label === undefined ? "" : expectString(raw.label, `${where}.label`),
+    status: expectStatus(raw.status, `${where}.status`),
+    started: raw.started === undefined ? "" : expectString(raw.started, `${where}.started`),
+    completed: raw.completed === null || raw.completed === undefined ? null : expectString(raw.completed, `${where}.completed`),
+    headers: Object.fromEntries(
+      Object.entries(headers).map(([key, field]) => [key, expectString(field, `${where}.headers.${key}`)])
+    ),
+    contents: raw.contents === undefined ? "" : expectString(raw.contents, `${where}.contents`)
+  };
+}
+
+/** Checks the shape and version of an export document, normalizing optional fields. */
+export function parseWorkTreeExport(value: unknown): WorkTreeExport {
+  const raw = expectObject(value, "document");
+  if (raw.version !== WORKTREE_EXPORT_VERSION) {
+    throw new Error(`unsupported export version ${JSON.stringify(raw.version)} (expected ${WORKTREE_EXPORT_VERSION})`);
+  }
+  const tool = raw.tool === undefined ? {} : expectObject(raw.tool, "tool");
+  const nodes = expectArray(raw.nodes, "nodes").map((entry, index): ExportedNode => {
+    const where = `nodes[${index}]`;
+    const node = expectObject(entry, where);
+    const plan = expectObject(node.plan, `${where}.plan`);
+    return {
+      path: expectString(node.path, `${where}.path`),
+      parent: node.parent === null || node.parent === undefined ? null : expectString(node.parent, `${where}.parent`),
+      children: optionalStrings(node.children, `${where}.children`),
+      plan: {
+        steps: expectArray(plan.steps, `${where}.plan.steps`).map((step, i) => readPlanStep(step, `${where}.plan.steps[${i}]`)),
+        contents: plan.contents === undefined ? undefined : expectString(plan.contents, `${where}.plan.contents`)
+      },
+      state: expectArray(node.state, `${where}.state`).map((row, i) => readStateRow(row, `${where}.state[${i}]`)),
+      logs: (node.logs === undefined ? [] : expectArray(node.logs, `${where}.logs`)).map((log, i) =>
+        readLog(log, `${where}.logs[${i}]`)
+      )
+    };
+  });
+  return {
+    $schema: raw.$schema === undefined ? WORKTREE_EXPORT_SCHEMA : expectString(raw.$schema, "$schema"),
+    version: WORKTREE_EXPORT_VERSION,
+    tool: {
+      name: tool.name === undefined ? "" : expectString(tool.name, "tool.name"),
+      version: tool.version === undefined ? "" : expectString(tool.version, "tool.version")
+    },
+    exportedAt: raw.exportedAt === undefined ? "" : expectString(raw.exportedAt, "exportedAt"),
+    nodes
+  };
+}
+
+function samePlanSteps(a: PlanStep[], b: PlanStep[]): boolean {
+  const normalize = (steps: PlanStep[]) =>
+    JSON.stringify(steps.map((step) => [step.phase, step.step, step.label, step.details ?? [], step.dependsOn ?? []]));
+  return normalize(a) === normalize(b);
+}
+
+interface PendingNode {
+  layout: WorkNodeLayout;
+  planText: string;
+  state: WorkState;
+  logs: { absolute: string; contents: string }[];
+}
+
+/** Builds the files of one exported node, failing on anything the node could not load back. */
+function prepareNode(node: ExportedNode, targetRoot: string): PendingNode {
+  const root = path.resolve(targetRoot, node.path);
+  const relative = path.relative(targetRoot, root);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error("path escapes the import target");
+  }
+  const layout: WorkNodeLayout = {
+    root,
+    planPath: path.join(root, "PLAN.md"),
+    statePath: path.join(root, "STATE.md"),
+    logsDir: path.join(root, "logs")
+  };
+
+  const planText = node.plan.contents ?? buildPlanMarkdown(node.plan.steps);
+  const plan = parsePlanContent(planText);
+  if (!samePlanSteps(plan.steps, node.plan.steps)) {
+    throw new Error("plan.contents does not match plan.steps");
+  }
+  const state = new WorkState(node.state);
+  const reparsed = parseStateContent(node.state.map(formatStateRow).join("\n"));
+  if (JSON.stringify(reparsed.entries) !== JSON.stringify(node.state)) {
+    throw new Error("state rows cannot be written to STATE.md unchanged (labels must not contain '|')");
+  }
+  ensurePlanStateConsistency(plan, state);
+
+  const logs: PendingNode["logs"] = [];
+  for (const log of node.logs) {
+    const planStep = plan.find(log.phase, log.step);
+    if (!planStep) {
+      throw new Error(`log ${log.path} belongs to step ${log.phase}.${log.step}, which is not in the plan`);
+    }
+    const paths = canonicalLogPaths(layout, planStep);
+    if (log.path !== paths.relative) {
+      throw new Error(`log ${log.path} must be stored at ${paths.relative}`);
+    }
+    let contents = log.contents;
+    if (!contents) {
+      const document = StepLog.create(planStep, log.status, log.started || undefined);
+      if (log.completed) {
+        document.setHeader("completed", log.completed, "started");
+      }
+      contents = document.toString();
+    }
+    logs.push({ absolute: paths.absolute, contents });
+  }
+  return { layout, planText, state, logs };
+}
+
+async function readExistingRows(layout: WorkNodeLayout, storage: WorkNodeStorage): Promise<StateRow[]> {
+  try {
+    return parseStateContent(await storage.readFile(layout.statePath)).entries;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Recreates the PLAN.md, STATE.md, and logs of every node in an export document under
+ * `targetRoot`. Every node is validated (including `ensurePlanStateConsistency`) and
+ * checked against existing files before the first file is written. The imported STATE
+ * rows are journaled in each node's events.jsonl as the `import` command.
+ */
+export async function importWorkTree(
+  document: unknown,
+  targetRoot: string,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const storage = options.storage ?? fileSystemStorage;
+  const root = path.resolve(targetRoot);
+  const parsed = parseWorkTreeExport(document);
+
+  const pending: PendingNode[] = [];
+  const seen = new Set<string>();
+  for (const node of parsed.nodes) {
+    let prepared: PendingNode;
+    try {
+      prepared = prepareNode(node, root);
+    } catch (error) {
+      throw new Error(`node ${node.path}: ${(error as Error).message}`);
+    }
+    if (seen.has(prepared.layout.root)) {
+      throw new Error(`node ${node.path} appears more than once`);
+    }
+    seen.add(prepared.layout.root);
+    if (!options.overwrite) {
+      for (const file of [prepared.layout.planPath, prepared.layout.statePath]) {
+        if ((await storage.stat(file)) !== null) {
+          throw new Error(`node ${node.path}: ${file} already exists; refusing to replace it`);
+        }
+      }
+    }
+    pending.push(prepared);
+  }
+
+  const files: string[] = [];
+  const context = { actor: options.owner ?? defaultLockOwner(), command: "import" };
+  for (const node of pending) {
+    const replaced = await readExistingRows(node.layout, storage);
+    await storage.mkdir(node.layout.logsDir);
+    await storage.writeFile(node.layout.planPath, node.planText);
+    await writeState(node.layout.statePath, node.state, storage);
+    const events = await recordStateChanges(node.layout, replaced, node.state.entries, context, storage);
+    files.push(node.layout.planPath, node.layout.statePath);
+    if (events.length) {
+      files.push(eventsPath(node.layout));
+    }
+    for (const log of node.logs) {
+      await storage.writeFile(log.absolute, log.contents);
+      files.push(log.absolute);
+    }
+  }
+  return { nodes: pending.map((node) => node.layout), files };
+}
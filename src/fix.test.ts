@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { applyWorkNodeFixes, formatUnifiedDiff, planWorkNodeFixes } from "./fix.js";
+import { MemoryStorage } from "./storage.js";
+import { WorkNode, collectWorkNodeFindings } from "./work-node.js";
+
+const ROOT = "/tree/api";
+const STEPS = [
+  { phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] },
+  { phase: 1, step: "1.2", label: "Write the printer", details: ["Print the output."] },
+  { phase: 1, step: "1.3", label: "Write the docs", details: ["Document the tool."] }
+];
+
+/** A node with 1.1 in progress whose STATE.md and log were then damaged by hand. */
+async function createDamagedNode(): Promise<MemoryStorage> {
+  const storage = new MemoryStorage();
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+  await node.transitionStep("1.1", "in-progress");
+  const state = await storage.readFile(`${ROOT}/STATE.md`);
+  await storage.writeFile(
+    `${ROOT}/STATE.md`,
+    state.replace("| 1 | 1.2 | Write the printer | todo | - |\n", "").replace("Write the docs", "Write docs")
+  );
+  const log = await storage.readFile(`${ROOT}/logs/p1-s1.1.md`);
+  await storage.writeFile(`${ROOT}/logs/p1-s1.1.md`, log.replace("status: in-progress", "status: todo"));
+  return storage;
+}
+
+test("plans repairs for missing rows, drifted labels, and log status headers", async () => {
+  const storage = await createDamagedNode();
+  const plan = await planWorkNodeFixes(ROOT, storage);
+
+  assert.deepEqual(
+    plan.fixes.map((fix) => [fix.ruleId, fix.step]),
+    [
+      ["plan-state-consistency", "1.2"],
+      ["plan-state-consistency", "1.3"],
+      ["log-status-mismatch", "1.1"]
+    ]
+  );
+  assert.deepEqual(plan.refused, []);
+  assert.deepEqual(plan.patches.map((patch) => patch.file), ["STATE.md", "logs/p1-s1.1.md"]);
+  assert.match(formatUnifiedDiff(plan.patches[0]), /^\+\| 1 \| 1\.2 \| Write the printer \| todo \| - \|$/m);
+});
+
+test("applies the repairs and journals the STATE.md changes", async () => {
+  const storage = await createDamagedNode();
+  await applyWorkNodeFixes(await planWorkNodeFixes(ROOT, storage), "fixer", storage);
+
+  assert.deepEqual(await collectWorkNodeFindings(ROOT, storage), []);
+  const events = (await storage.readFile(`${ROOT}/events.jsonl`)).trim().split("\n").map((line) => JSON.parse(line));
+  assert.ok(events.some((event) => event.command === "fix" && event.actor === "fixer" && event.step === "1.2"));
+});
+
+test("refuses to repair completed steps and to apply a stale plan", async () => {
+  const storage = await createDamagedNode();
+  const state = await storage.readFile(`${ROOT}/STATE.md`);
+  await storage.writeFile(`${ROOT}/STATE.md`, state.replace("| Write docs | todo |", "| Write docs | superseded |"));
+  const plan = await planWorkNodeFixes(ROOT, storage);
+  assert.deepEqual(plan.refused.map((fix) => fix.step), ["1.3"]);
+
+  await storage.writeFile(`${ROOT}/STATE.md`, `${await storage.readFile(`${ROOT}/STATE.md`)}\n`);
+  await assert.rejects(applyWorkNodeFixes(plan, "fixer", storage), /STATE\.md changed/);
+});
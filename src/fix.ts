@@ -0,0 +1,331 @@
+import path from "node:path";
+import { recordStateChanges } from "./events.js";
+import { assertWorkNodeWritable, defaultLockOwner, defaultLockSession } from "./lock.js";
+import { readWorkNodeConfig } from "./node-config.js";
+import type { WorkNodeConfig } from "./node-config.js";
+import { StepLog } from "./step-log.js";
+import { fileSystemStorage } from "./storage.js";
+import type { WorkNodeStorage } from "./storage.js";
+import { WorkNodeTransaction } from "./transaction.js";
+import {
+  canonicalLogPaths,
+  collectWorkNodeFindings,
+  compareStepIdentifiers,
+  formatStateRow,
+  parsePlanContent,
+  parseStateContent,
+  validateWorkNodeLayout
+} from "./work-node.js";
+import type { StateRow, StepStatus, WorkNodeLayout } from "./work-node.js";
+
+export interface FixAction {
+  ruleId: string;
+  step: string;
+  description: string;
+}
+
+export interface FilePatch {
+  /** Node-relative path of the patched file. */
+  file: string;
+  before: string;
+  after: string;
+}
+
+export interface WorkNodeFixPlan {
+  layout: WorkNodeLayout;
+  fixes: FixAction[];
+  /** Repairs that WORK_PROTOCOL §4 does not allow to be made automatically. */
+  refused: FixAction[];
+  patches: FilePatch[];
+}
+
+const COMPLETED_STATUSES: Set<StepStatus> = new Set(["done", "superseded"]);
+const STATE_ROW_STEP_REGEX = /^\|\s*\d+\s*\|\s*([^|]+?)\s*\|/;
+const DIFF_CONTEXT_LINES = 3;
+
+async function readOptionalFile(filePath: string, storage: WorkNodeStorage): Promise<string | null> {
+  try {
+    return await storage.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Edits STATE.md line by line so rows the fixer does not touch keep their exact text.
+ */
+class StateDocument {
+  private readonly lines: string[];
+  private readonly eol: string;
+
+  constructor(contents: string) {
+    this.eol = contents.includes("\r\n") ? "\r\n" : "\n";
+    this.lines = contents.split(/\r?\n/);
+  }
+
+  private indexOf(step: string): number {
+    return this.lines.findIndex((line) => STATE_ROW_STEP_REGEX.exec(line)?.[1] === step);
+  }
+
+  replace(entry: StateRow): void {
+    this.lines[this.indexOf(entry.step)] = formatStateRow(entry);
+  }
+
+  insert(entry: StateRow, rows: StateRow[]): void {
+    const preceding = rows.filter((row) => compareStepIdentifiers(row, entry) < 0).pop();
+    let index = preceding ? this.indexOf(preceding.step) + 1 : 0;
+    if (!preceding) {
+      const separator = this.lines.findIndex((line) => line.trim().startsWith("| -----"));
+      index = separator === -1 ? this.lines.length : separator + 1;
+    }
+    this.lines.splice(index, 0, formatStateRow(entry));
+  }
+
+  toString(): string {
+    return this.lines.join(this.eol);
+  }
+}
+
+/**
+ * Computes the safe repairs for a node's mechanical audit failures: missing STATE rows,
+ * STATE labels of `todo` steps that drifted from PLAN, Progress Log cells that do not
+ * name the existing canonical log, and log `status:` headers that disagree with STATE.
+ * Nothing is written; repairs that would touch completed steps are listed as refused.
+ */
+export async function planWorkNodeFixes(
+  root: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeFixPlan> {
+  const layout = await validateWorkNodeLayout(root, storage);
+  const result: WorkNodeFixPlan = { layout, fixes: [], refused: [], patches: [] };
+  const findings = await collectWorkNodeFindings(layout.root, storage);
+  if (!findings.length) {
+    return result;
+  }
+  const config: WorkNodeConfig = await readWorkNodeConfig(layout, storage).catch(() => ({ rules: {} }));
+  const enabled = (ruleId: string): boolean => config.rules[ruleId] !== "off";
+  const propose = (action: FixAction, allowed: boolean): void => {
+    (allowed ? result.fixes : result.refused).push(action);
+  };
+
+  const stateBefore = await storage.readFile(layout.statePath);
+  const plan = parsePlanContent(await storage.readFile(layout.planPath));
+  const state = parseStateContent(stateBefore);
+  const document = new StateDocument(stateBefore);
+  const rows = [...state.entries];
+
+  if (enabled("plan-state-consistency")) {
+    for (const planStep of plan.steps) {
+      const entry = state.find(planStep.phase, planStep.step);
+      if (!entry) {
+        const hasLog = (await readOptionalFile(canonicalLogPaths(layout, planStep).absolute, storage)) !== null;
+        const row: StateRow = { ...planStep, status: "todo", progressLog: null };
+        propose(
+          {
+            ruleId: "plan-state-consistency",
+            step: planStep.step,
+            description: hasLog
+              ? `step ${planStep.step} is missing from STATE.md but already has a log; add its row by hand`
+              : `add missing STATE row for ${planStep.step} (${planStep.label}) as todo`
+          },
+          !hasLog
+        );
+        if (!hasLog) {
+          document.insert(row, rows);
+          rows.push(row);
+          rows.sort(compareStepIdentifiers);
+        }
+        continue;
+      }
+      if (entry.label !== planStep.label) {
+        const allowed = entry.status === "todo";
+        propose(
+          {
+            ruleId: "plan-state-consistency",
+            step: entry.step,
+            description: allowed
+              ? `relabel STATE row ${entry.step} from '${entry.label}' to '${planStep.label}' to match PLAN`
+              : `label of ${entry.status} step ${entry.step} differs from PLAN; only todo labels are repaired automatically`
+          },
+          allowed
+        );
+        if (allowed) {
+          entry.label = planStep.label;
+          document.replace(entry);
+        }
+      }
+    }
+  }
+
+  const logPatches: FilePatch[] = [];
+  for (const entry of state.entries) {
+    const canonical = canonicalLogPaths(layout, entry);
+    const logContents = await readOptionalFile(canonical.absolute, storage);
+    if (logContents === null) {
+      continue;
+    }
+    const completed = COMPLETED_STATUSES.has(entry.status);
+
+    const pointsAtCanonical =
+      entry.progressLog !== null && path.resolve(layout.root, entry.progressLog) === canonical.absolute;
+    const misplaced = entry.progressLog !== canonical.relative && (entry.progressLog === null || pointsAtCanonical);
+    if (enabled("progress-log-path") && misplaced) {
+      propose(
+        {
+          ruleId: "progress-log-path",
+          step: entry.step,
+          description: completed
+            ? `Progress Log of ${entry.status} step ${entry.step} is not ${canonical.relative}; completed steps are not modified`
+            : `set Progress Log of ${entry.step} to ${canonical.relative}`
+        },
+        !completed
+      );
+      if (!completed) {
+        entry.progressLog = canonical.relative;
+        document.replace(entry);
+      }
+    }
+
+    const log = StepLog.parse(logContents);
+    const logStatus = log.getHeader("status");
+    if (enabled("log-status-mismatch") && logStatus && logStatus !== entry.status) {
+      const allowed = !completed && !COMPLETED_STATUSES.has(logStatus as StepStatus);
+      propose(
+        {
+          ruleId: "log-status-mismatch",
+          step: entry.step,
+          description: allowed
+            ? `set status header of ${canonical.relative} from ${logStatus} to ${entry.status}`
+            : `status header of ${canonical.relative} (${logStatus}) disagrees with STATE (${entry.status}); completed steps are not modified`
+        },
+        allowed
+      );
+      if (allowed) {
+        log.setHeader("status", entry.status);
+        logPatches.push({ file: canonical.relative, before: logContents, after: log.toString() });
+      }
+    }
+  }
+
+  const stateAfter = document.toString();
+  if (stateAfter !== stateBefore) {
+    result.patches.push({ file: "STATE.md", before: stateBefore, after: stateAfter });
+  }
+  result.patches.push(...logPatches);
+  return result;
+}
+
+/**
+ * Writes the patches of a fix plan as one transaction, refusing if any file changed since
+ * it was computed. STATE.md repairs are journaled in events.jsonl as the `fix` command.
+ */
+export async function applyWorkNodeFixes(
+  plan: WorkNodeFixPlan,
+  owner: string = defaultLockOwner(),
+  storage: WorkNodeStorage = fileSystemStorage,
+  session: string | undefined = defaultLockSession()
+): Promise<void> {
+  await assertWorkNodeWritable(plan.layout, owner, storage, session);
+  for (const patch of plan.patches) {
+    const current = await readOptionalFile(path.join(plan.layout.root, patch.file), storage);
+    if (current !== patch.before) {
+      throw new Error(`${patch.file} changed while the fixes were being computed; run fix again`);
+    }
+  }
+  const transaction = new WorkNodeTransaction(plan.layout, storage, { owner, command: "fix" });
+  for (const patch of plan.patches) {
+    await transaction.writeFile(path.join(plan.layout.root, patch.file), patch.after);
+    if (patch.file === "STATE.md") {
+      await recordStateChanges(
+        plan.layout,
+        parseStateContent(patch.before).entries,
+        parseStateContent(patch.after).entries,
+        { actor: owner, command: "fix" },
+        transaction
+      );
+    }
+  }
+  await transaction.commit();
+}
+
+function splitDiffLines(contents: string): string[] {
+  const lines = contents.split("\n").map((line) => line.replace(/\r$/, ""));
+  if (lines.length && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+function diffLines(before: string[], after: string[]): Array<{ op: " " | "-" | "+"; line: string }> {
+  const width = after.length + 1;
+  const lcs = new Uint32Array((before.length + 1) * width);
+  for (let i = before.length - 1; i >= 0; i -= 1) {
+    for (let j = after.length - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] =
+        before[i] === after[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+  const ops: Array<{ op: " " | "-" | "+"; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      ops.push({ op: " ", line: before[i] });
+      i += 1;
+      j += 1;
+    } else if (j >= after.length || (i < before.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ op: "-", line: before[i] });
+      i += 1;
+    } else {
+      ops.push({ op: "+", line: after[j] });
+      j += 1;
+    }
+  }
+  return ops;
+}
+
+export function formatUnifiedDiff(patch: FilePatch): string {
+  let beforeLine = 0;
+  let afterLine = 0;
+  const ops = diffLines(splitDiffLines(patch.before), splitDiffLines(patch.after)).map((op) => {
+    const positioned = { ...op, before: beforeLine, after: afterLine };
+    beforeLine += op.op === "+" ? 0 : 1;
+    afterLine += op.op === "-" ? 0 : 1;
+    return positioned;
+  });
+
+  const hunks: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.op === " ") {
+      return;
+    }
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    const end = Math.min(ops.length, index + DIFF_CONTEXT_LINES + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+  if (!hunks.length) {
+    return "";
+  }
+
+  const lines = [`--- a/${patch.file}`, `+++ b/${patch.file}`];
+  for (const [start, end] of hunks) {
+    const slice = ops.slice(start, end);
+    const beforeCount = slice.filter((op) => op.op !== "+").length;
+    const afterCount = slice.filter((op) => op.op !== "-").length;
+    const beforeStart = slice[0].before + (beforeCount ? 1 : 0);
+    const afterStart = slice[0].after + (afterCount ? 1 : 0);
+    lines.push(`@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@`);
+    lines.push(...slice.map((op) => `${op.op}${op.line}`));
+  }
+  return lines.join("\n");
+}
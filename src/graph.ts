@@ -0,0 +1,316 @@
+import path from "node:path";
+import { fileSystemStorage } from "./storage.js";
+import { WorkNode, buildWorkNodeRelations, compareStepIdentifiers, discoverWorkNodes } from "./work-node.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { PlanStep, StepStatus, WorkNodeRelation } from "./work-node.js";
+
+export const GRAPH_FORMATS = ["mermaid", "dot"] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+/** Fill and border colors of step vertices, by status. */
+export const STEP_STATUS_COLORS: Record<StepStatus, { fill: string; stroke: string }> = {
+  todo: { fill: "#f3f4f6", stroke: "#6b7280" },
+  "in-progress": { fill: "#dbeafe", stroke: "#2563eb" },
+  blocked: { fill: "#fee2e2", stroke: "#dc2626" },
+  done: { fill: "#dcfce7", stroke: "#16a34a" },
+  superseded: { fill: "#ede9fe", stroke: "#7c3aed" }
+};
+
+/**
+ * PLAN detail naming other nodes a step refers to: `refs: ../billing, ../billing#2.1`.
+ * Paths are relative to the declaring node; `#<step>` points at one step of that node.
+ */
+const REFS_DETAIL_REGEX = /^refs?\s*:\s*(.*)$/i;
+const COMPLETED_STATUSES: Set<StepStatus> = new Set(["done", "superseded"]);
+
+export interface GraphOptions {
+  /** Draw each phase whose steps are all done or superseded as a single vertex. */
+  collapseCompleted?: boolean;
+  /** Levels of nesting to draw; 1 draws only top-level nodes. Unlimited when absent. */
+  maxDepth?: number;
+  storage?: WorkNodeStorage;
+}
+
+export type GraphEdgeKind = "phase" | "depends" | "refs";
+
+export interface GraphVertex {
+  id: string;
+  label: string;
+  status: StepStatus | null;
+}
+
+export interface GraphCluster {
+  id: string;
+  /** Node path relative to the graph root, `.` for the root itself. */
+  path: string;
+  label: string;
+  vertices: GraphVertex[];
+  children: GraphCluster[];
+}
+
+export interface GraphEdge {
+  from: string;
+  /** Vertex id, or the id of a cluster when the edge points at a whole node. */
+  to: string;
+  kind: GraphEdgeKind;
+}
+
+export interface WorkGraph {
+  clusters: GraphCluster[];
+  edges: GraphEdge[];
+  /** References that could not be drawn and nodes that failed to load. */
+  warnings: string[];
+}
+
+interface NodeEntry {
+  relation: WorkNodeRelation;
+  cluster: GraphCluster;
+  node: WorkNode | null;
+  /** Step id to the vertex that stands for it (a collapsed phase, or the step itself). */
+  vertexByStep: Map<string, string>;
+}
+
+function toPosix(relative: string): string {
+  return relative.split(path.sep).join("/");
+}
+
+function stepVertexId(clusterId: string, step: string): string {
+  return `${clusterId}_s${step.replace(/\./g, "_")}`;
+}
+
+function depthOf(relation: WorkNodeRelation, byRoot: Map<string, WorkNodeRelation>): number {
+  let depth = 1;
+  let parent = relation.parent;
+  while (parent) {
+    depth += 1;
+    parent = byRoot.get(parent.root)?.parent ?? null;
+  }
+  return depth;
+}
+
+function groupByPhase(steps: PlanStep[]): Map<number, PlanStep[]> {
+  const phases = new Map<number, PlanStep[]>();
+  for (const step of [...steps].sort(compareStepIdentifiers)) {
+    const list = phases.get(step.phase) ?? [];
+    list.push(step);
+    phases.set(step.phase, list);
+  }
+  return phases;
+}
+
+function parseReferences(step: PlanStep): { node: string; step: string | null }[] {
+  const references: { node: string; step: string | null }[] = [];
+  for (const detail of step.details ?? []) {
+    const match = REFS_DETAIL_REGEX.exec(detail);
+    if (!match) {
+      continue;
+    }
+    for (const target of match[1].split(",").map((entry) => entry.trim()).filter(Boolean)) {
+      const [node, stepId] = target.split("#");
+      references.push({ node: node || ".", step: stepId?.trim() || null });
+    }
+  }
+  return references;
+}
+
+/**
+ * Builds the drawable WorkDAG of every node under `root`: one cluster per node, nested
+ * like the directories, with the node's steps as vertices. Edges follow phase order,
+ * `depends:` declarations, and `refs:` details that point at other nodes.
+ */
+export async function buildWorkGraph(root: string, options: GraphOptions = {}): Promise<WorkGraph> {
+  const storage = options.storage ?? fileSystemStorage;
+  const graphRoot = path.resolve(root);
+  const relations = buildWorkNodeRelations(await discoverWorkNodes(graphRoot, storage));
+  const byRoot = new Map(relations.map((relation) => [relation.layout.root, relation]));
+  const graph: WorkGraph = { clusters: [], edges: [], warnings: [] };
+  const entries = new Map<string, NodeEntry>();
+  const edgeKeys = new Set<string>();
+  const addEdge = (from: string, to: string, kind: GraphEdgeKind): void => {
+    const key = `${from}->${to}`;
+    if (from !== to && !edgeKeys.has(key)) {
+      edgeKeys.add(key);
+      graph.edges.push({ from, to, kind });
+    }
+  };
+
+  for (const relation of relations) {
+    if (options.maxDepth !== undefined && depthOf(relation, byRoot) > options.maxDepth) {
+      continue;
+    }
+    const nodePath = toPosix(path.relative(graphRoot, relation.layout.root)) || ".";
+    const cluster: GraphCluster = {
+      id: `n${entries.size}`,
+      path: nodePath,
+      label: nodePath === "." ? path.basename(graphRoot) : nodePath,
+      vertices: [],
+      children: []
+    };
+    let node: WorkNode | null = null;
+    try {
+      node = await WorkNode.loadFromLayout(relation.layout, storage);
+    } catch (error) {
+      graph.warnings.push(`node ${nodePath} failed to load: ${(error as Error).message}`);
+      cluster.vertices.push({ id: `${cluster.id}_error`, label: "failed to load", status: null });
+    }
+    const entry: NodeEntry = { relation, cluster, node, vertexByStep: new Map() };
+    entries.set(relation.layout.root, entry);
+    const parent = relation.parent ? entries.get(relation.parent.root) : undefined;
+    (parent ? parent.cluster.children : graph.clusters).push(cluster);
+  }
+
+  for (const entry of entries.values()) {
+    const { cluster, node } = entry;
+    if (!node) {
+      continue;
+    }
+    const phases = groupByPhase(node.plan.steps);
+    const status = (step: PlanStep): StepStatus => node.state.find(step.phase, step.step)?.status ?? "todo";
+    const phaseBounds: { first: string; last: string }[] = [];
+    for (const [phase, steps] of phases) {
+      if (options.collapseCompleted && steps.every((step) => COMPLETED_STATUSES.has(status(step)))) {
+        const id = `${cluster.id}_p${phase}`;
+        cluster.vertices.push({ id, label: `Phase ${phase} (${steps.length} ${steps.length === 1 ? "step" : "steps"} completed)`, status: "done" });
+        steps.forEach((step) => entry.vertexByStep.set(step.step, id));
+        phaseBounds.push({ first: id, last: id });
+        continue;
+      }
+      for (const step of steps) {
+        const id = stepVertexId(cluster.id, step.step);
+        cluster.vertices.push({ id, label: `${step.step} ${step.label}`, status: status(step) });
+        entry.vertexByStep.set(step.step, id);
+      }
+      phaseBounds.push({
+        first: entry.vertexByStep.get(steps[0].step)!,
+        last: entry.vertexByStep.get(steps[steps.length - 1].step)!
+      });
+    }
+    if (!cluster.vertices.length) {
+      cluster.vertices.push({ id: `${cluster.id}_empty`, label: "(no steps)", status: null });
+    }
+    for (let index = 1; index < phaseBounds.length; index += 1) {
+      addEdge(phaseBounds[index - 1].last, phaseBounds[index].first, "phase");
+    }
+  }
+
+  for (const entry of entries.values()) {
+    if (!entry.node) {
+      continue;
+    }
+    for (const step of entry.node.plan.steps) {
+      const from = entry.vertexByStep.get(step.step)!;
+      for (const dependency of step.dependsOn ?? []) {
+        addEdge(entry.vertexByStep.get(dependency)!, from, "depends");
+      }
+      for (const reference of parseReferences(step)) {
+        const targetRoot = path.resolve(entry.relation.layout.root, reference.node);
+        let target = byRoot.get(targetRoot);
+        if (!target) {
+          graph.warnings.push(`step ${step.step} in ${entry.cluster.path} refers to ${reference.node}, which is not a WorkNode`);
+          continue;
+        }
+        // A reference into a node below the depth limit points at its nearest drawn ancestor.
+        while (target && !entries.has(target.layout.root)) {
+          target = target.parent ? byRoot.get(target.parent.root) : undefined;
+        }
+        const targetEntry = target ? entries.get(target.layout.root) : undefined;
+        const drawnAsNode = targetEntry?.relation.layout.root !== targetRoot || !reference.step;
+        if (!targetEntry || (targetEntry === entry && drawnAsNode)) {
+          continue;
+        }
+        const to = drawnAsNode ? targetEntry.cluster.id : targetEntry.vertexByStep.get(reference.step!);
+        if (!to) {
+          graph.warnings.push(
+            `step ${step.step} in ${entry.cluster.path} refers to unknown step ${reference.step} of ${targetEntry.cluster.path}`
+          );
+          continue;
+        }
+        addEdge(from, to, "refs");
+      }
+    }
+  }
+
+  return graph;
+}
+
+function walkClusters(clusters: GraphCluster[], visit: (cluster: GraphCluster) => void): void {
+  for (const cluster of clusters) {
+    visit(cluster);
+    walkClusters(cluster.children, visit);
+  }
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, "#quot;");
+}
+
+export function formatMermaidGraph(graph: WorkGraph): string {
+  const lines = ["flowchart TD"];
+  const renderCluster = (cluster: GraphCluster, indent: string): void => {
+    lines.push(`${indent}subgraph ${cluster.id}["${mermaidText(cluster.label)}"]`);
+    lines.push(`${indent}  direction TB`);
+    for (const vertex of cluster.vertices) {
+      const style = vertex.status ? `:::${vertex.status.replace("-", "_")}` : "";
+      lines.push(`${indent}  ${vertex.id}["${mermaidText(vertex.label)}"]${style}`);
+    }
+    cluster.children.forEach((child) => renderCluster(child, `${indent}  `));
+    lines.push(`${indent}end`);
+  };
+  graph.clusters.forEach((cluster) => renderCluster(cluster, "  "));
+
+  const arrows: Record<GraphEdgeKind, string> = { depends: "-->", phase: "-.->", refs: "-. refs .->" };
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.from} ${arrows[edge.kind]} ${edge.to}`);
+  }
+  for (const [status, color] of Object.entries(STEP_STATUS_COLORS)) {
+    lines.push(`  classDef ${status.replace("-", "_")} fill:${color.fill},stroke:${color.stroke}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function dotText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+export function formatDotGraph(graph: WorkGraph): string {
+  const lines = [
+    "digraph worktree {",
+    "  compound=true;",
+    "  rankdir=TB;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fillcolor="#ffffff"];'
+  ];
+  const anchors = new Map<string, string>();
+  walkClusters(graph.clusters, (cluster) => anchors.set(cluster.id, cluster.vertices[0].id));
+
+  const renderCluster = (cluster: GraphCluster, indent: string): void => {
+    lines.push(`${indent}subgraph cluster_${cluster.id} {`);
+    lines.push(`${indent}  label="${dotText(cluster.label)}";`);
+    for (const vertex of cluster.vertices) {
+      const color = vertex.status ? STEP_STATUS_COLORS[vertex.status] : null;
+      const colors = color ? `, fillcolor="${color.fill}", color="${color.stroke}"` : ", style=dashed";
+      lines.push(`${indent}  ${vertex.id} [label="${dotText(vertex.label)}"${colors}];`);
+    }
+    cluster.children.forEach((child) => renderCluster(child, `${indent}  `));
+    lines.push(`${indent}}`);
+  };
+  graph.clusters.forEach((cluster) => renderCluster(cluster, "  "));
+
+  for (const edge of graph.edges) {
+    const anchor = anchors.get(edge.to);
+    const to = anchor ?? edge.to;
+    const attributes =
+      edge.kind === "depends"
+        ? []
+        : edge.kind === "phase"
+          ? ["style=dashed"]
+          : ["style=dotted", 'label="refs"', ...(anchor ? [`lhead=cluster_${edge.to}`] : [])];
+    lines.push(`  ${edge.from} -> ${to}${attributes.length ? ` [${attributes.join(", ")}]` : ""};`);
+  }
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+export function formatWorkGraph(format: GraphFormat, graph: WorkGraph): string {
+  return format === "dot" ? formatDotGraph(graph) : formatMermaidGraph(graph);
+}
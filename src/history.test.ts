@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { auditWorkNodesSince } from "./history.js";
+import { runWorkNodeStep } from "./runner.js";
+import { MemoryStorage } from "./storage.js";
+import { WorkNode } from "./work-node.js";
+
+const STEPS = [
+  { phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] },
+  { phase: 1, step: "1.2", label: "Write the printer", details: ["Print the output."] }
+];
+
+/** A tree with one node whose step 1.1 is done, and a saved copy of it as the baseline. */
+async function setUpTree(t: { after(fn: () => Promise<void>): void }): Promise<{ root: string; baseline: string }> {
+  const scratch = await fs.mkdtemp(path.join(os.tmpdir(), "worktree-history-"));
+  t.after(() => fs.rm(scratch, { recursive: true, force: true }));
+  const root = path.join(scratch, "tree");
+  await WorkNode.initialize(path.join(root, "api"), STEPS);
+  await runWorkNodeStep(path.join(root, "api"), { owner: "test", complete: true, force: true });
+  const baseline = path.join(scratch, "baseline");
+  await fs.cp(root, baseline, { recursive: true });
+  return { root, baseline };
+}
+
+/** The history rules that fired; the forced completion leaves the usual log findings aside. */
+function ruleIds(results: Awaited<ReturnType<typeof auditWorkNodesSince>>): string[] {
+  return results.flatMap((result) => result.findings.map((finding) => finding.ruleId)).filter((id) => id.startsWith("history-"));
+}
+
+test("an unchanged tree has no history findings", async (t) => {
+  const { root, baseline } = await setUpTree(t);
+  assert.deepEqual(ruleIds(await auditWorkNodesSince(root, baseline)), []);
+});
+
+test("reports a done step whose status regressed", async (t) => {
+  const { root, baseline } = await setUpTree(t);
+  const statePath = path.join(root, "api", "STATE.md");
+  const state = await fs.readFile(statePath, "utf8");
+  await fs.writeFile(statePath, state.replace("| done |", "| in-progress |"));
+
+  assert.ok(ruleIds(await auditWorkNodesSince(root, baseline)).includes("history-status-regression"));
+});
+
+test("reports a node deleted since the baseline with its completed steps", async (t) => {
+  const { root, baseline } = await setUpTree(t);
+  await fs.rm(path.join(root, "api"), { recursive: true });
+
+  const results = await auditWorkNodesSince(root, baseline);
+  assert.deepEqual(
+    results.map((result) => result.layout.root),
+    [path.join(root, "api")]
+  );
+  const ids = ruleIds(results);
+  assert.ok(ids.includes("history-removed-node"));
+  assert.ok(ids.includes("history-removed-step"));
+  assert.ok(ids.includes("history-log-deleted"));
+});
+
+test("accepts a reopened done step without reporting a regression", async (t) => {
+  const { root, baseline } = await setUpTree(t);
+  const node = await WorkNode.load(path.join(root, "api"));
+  await node.reopenStep("1.1", { reason: "the parser drops comments" });
+
+  assert.ok(!ruleIds(await auditWorkNodesSince(root, baseline)).includes("history-status-regression"));
+});
+
+test("accepts a step reopened, blocked, and unblocked since the baseline", async (t) => {
+  const { root, baseline } = await setUpTree(t);
+  const node = await WorkNode.load(path.join(root, "api"));
+  await node.reopenStep("1.1", { reason: "the parser drops comments" });
+  await node.transitionStep("1.1", "blocked", { reason: "waiting on a grammar decision" });
+  await node.unblockStep("1.1");
+
+  assert.equal(node.state.findById("1.1")?.status, "in-progress");
+  assert.ok(!ruleIds(await auditWorkNodesSince(root, baseline)).includes("history-status-regression"));
+});
+
+test("reads the tree and a saved baseline through the given storage", async () => {
+  const storage = new MemoryStorage();
+  await WorkNode.initialize("/tree/api", STEPS, storage);
+  const files = storage.snapshot();
+  for (const [filePath, contents] of Object.entries(files)) {
+    await storage.writeFile(filePath.replace("/tree/", "/baseline/"), contents);
+  }
+  await storage.mkdir("/baseline/api/logs");
+  await storage.writeFile("/tree/api/STATE.md", files["/tree/api/STATE.md"].replace("| Write the parser | todo |", "| Write the lexer | todo |"));
+
+  assert.deepEqual(ruleIds(await auditWorkNodesSince("/tree", "/baseline", storage)), []);
+  await storage.remove("/tree/api/PLAN.md");
+  assert.ok(ruleIds(await auditWorkNodesSince("/tree", "/baseline", storage)).includes("history-removed-node"));
+});
@@ -0,0 +1,459 @@
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { promisify } from "node:util";
+import {
+  IGNORED_DIRECTORY_NAMES,
+  applyAuditRuleSettings,
+  auditWorkNodes,
+  createAuditFinding,
+  discoverWorkNodes,
+  parsePlanContent,
+  parseStateContent,
+  WorkPlan,
+  WorkState
+} from "./work-node.js";
+import { MIGRATIONS_FILENAME, parseMigrations } from "./migrations.js";
+import { readWorkNodeConfig } from "./node-config.js";
+import { StepLog } from "./step-log.js";
+import { fileSystemStorage } from "./storage.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { MigrationEntry } from "./migrations.js";
+import type { AuditFinding, AuditResult, StateRow, StepStatus, WorkNodeLayout } from "./work-node.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface WorkNodeSnapshot {
+  plan: WorkPlan;
+  state: WorkState;
+  /** Log contents keyed by their node-relative path (e.g. `logs/p1-s1.2.md`). */
+  logs: Map<string, string>;
+  migrations: MigrationEntry[];
+}
+
+const COMPLETED_STATUSES: Set<StepStatus> = new Set(["done", "superseded"]);
+
+/** What remains of a node that was deleted. */
+const EMPTY_SNAPSHOT: WorkNodeSnapshot = {
+  plan: parsePlanContent(""),
+  state: parseStateContent(""),
+  logs: new Map(),
+  migrations: []
+};
+const MUTABLE_LOG_HEADERS = new Set(["status", "previous-status", "completed", "reopened"]);
+
+async function readOptionalFile(filePath: string, storage: WorkNodeStorage): Promise<string | null> {
+  try {
+    return await storage.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function readLogsDirectory(logsDir: string, storage: WorkNodeStorage): Promise<Map<string, string>> {
+  const logs = new Map<string, string>();
+  const names = (await storage.readDir(logsDir)).filter((entry) => entry.kind === "file").map((entry) => entry.name);
+  for (const name of names.sort()) {
+    if (!name.endsWith(".md")) {
+      continue;
+    }
+    const contents = await readOptionalFile(path.join(logsDir, name), storage);
+    if (contents !== null) {
+      logs.set(`logs/${name}`, contents);
+    }
+  }
+  return logs;
+}
+
+export async function loadSnapshotFromDirectory(
+  root: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeSnapshot | null> {
+  const planContent = await readOptionalFile(path.join(root, "PLAN.md"), storage);
+  const stateContent = await readOptionalFile(path.join(root, "STATE.md"), storage);
+  if (planContent === null || stateContent === null) {
+    return null;
+  }
+  return {
+    plan: parsePlanContent(planContent),
+    state: parseStateContent(stateContent),
+    logs: await readLogsDirectory(path.join(root, "logs"), storage),
+    migrations: parseMigrations((await readOptionalFile(path.join(root, MIGRATIONS_FILENAME), storage)) ?? "")
+  };
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync("git", args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args.join(" ")} failed${stderr ? `: ${stderr}` : ""}`);
+  }
+}
+
+/**
+ * The real path of the longest existing prefix of `target` and the rest of it, so nodes
+ * deleted since a revision can still be looked up in that revision.
+ */
+async function splitExistingPath(target: string): Promise<{ existing: string; rest: string }> {
+  try {
+    return { existing: await fs.realpath(target), rest: "" };
+  } catch (error) {
+    const parent = path.dirname(target);
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT" || parent === target) {
+      throw error;
+    }
+    const split = await splitExistingPath(parent);
+    return { existing: split.existing, rest: path.join(split.rest, path.basename(target)) };
+  }
+}
+
+/** The files under `root` at `revision`, as repository paths, plus how to map them back. */
+async function listGitFiles(
+  root: string,
+  revision: string
+): Promise<{ topLevel: string; commit: string; prefix: string; files: Set<string> }> {
+  const { existing, rest } = await splitExistingPath(path.resolve(root));
+  const realRoot = path.join(existing, rest);
+  const topLevel = (await git(existing, ["rev-parse", "--show-toplevel"])).trim();
+  const commit = (await git(existing, ["rev-parse", "--verify", "--quiet", `${revision}^{commit}`]).catch(() => {
+    throw new Error(`unknown git revision '${revision}'`);
+  })).trim();
+
+  const prefix = path.relative(topLevel, realRoot).split(path.sep).join("/");
+  const listing = await git(topLevel, ["ls-tree", "-r", "--name-only", commit, "--", prefix || "."]);
+  return { topLevel, commit, prefix, files: new Set(listing.split("\n").filter((line) => line.length)) };
+}
+
+export async function loadSnapshotFromGit(root: string, revision: string): Promise<WorkNodeSnapshot | null> {
+  const { topLevel, commit, prefix, files } = await listGitFiles(root, revision);
+  const toRepoPath = (relative: string): string => (prefix ? `${prefix}/${relative}` : relative);
+  if (!files.has(toRepoPath("PLAN.md")) || !files.has(toRepoPath("STATE.md"))) {
+    return null;
+  }
+
+  const show = (relative: string): Promise<string> => git(topLevel, ["show", `${commit}:${toRepoPath(relative)}`]);
+  const logs = new Map<string, string>();
+  const logsPrefix = toRepoPath("logs/");
+  for (const file of [...files].sort()) {
+    const name = file.slice(logsPrefix.length);
+    if (!file.startsWith(logsPrefix) || name.includes("/") || !name.endsWith(".md")) {
+      continue;
+    }
+    logs.set(`logs/${name}`, await show(`logs/${name}`));
+  }
+
+  return {
+    plan: parsePlanContent(await show("PLAN.md")),
+    state: parseStateContent(await show("STATE.md")),
+    logs,
+    migrations: files.has(toRepoPath(MIGRATIONS_FILENAME)) ? parseMigrations(await show(MIGRATIONS_FILENAME)) : []
+  };
+}
+
+function isSubsequence(expected: string[], actual: string[]): boolean {
+  let cursor = 0;
+  for (const line of actual) {
+    if (cursor < expected.length && line === expected[cursor]) {
+      cursor += 1;
+    }
+  }
+  return cursor === expected.length;
+}
+
+function normalizeLogHistory(log: StepLog, ignoreTitle: boolean = false): string[] {
+  const mutableLines = new Set(
+    log.headers.filter((field) => MUTABLE_LOG_HEADERS.has(field.key)).map((field) => field.line)
+  );
+  if (ignoreTitle && log.title !== null) {
+    mutableLines.add(0);
+  }
+  return log.lines
+    .filter((_, index) => !mutableLines.has(index))
+    .map((line) => line.trimEnd().replace(/^(\s*-\s*)\[[xX ]\]/, "$1[ ]"))
+    .filter((line) => line.length);
+}
+
+function describeRow(row: StateRow): string {
+  return `${row.step} (${row.label})`;
+}
+
+/**
+ * Replays the migrations recorded since the baseline: `resolve` follows renumbers from a
+ * baseline identifier to its current one and `touched` holds current identifiers whose
+ * identifier or label was changed by a documented migration.
+ */
+function replayMigrations(migrations: MigrationEntry[]): { resolve: (step: string) => string; touched: Set<string> } {
+  const follow = (step: string, start: number): string => {
+    let current = step;
+    for (const migration of migrations.slice(start)) {
+      if (migration.kind === "renumber" && migration.from === current) {
+        current = migration.to;
+      }
+    }
+    return current;
+  };
+  const touched = new Set<string>();
+  migrations.forEach((migration, index) => {
+    touched.add(follow(migration.kind === "renumber" ? migration.to : migration.step, index + 1));
+  });
+  return { resolve: (step) => follow(step, 0), touched };
+}
+
+export function compareWorkNodeSnapshots(
+  before: WorkNodeSnapshot,
+  after: WorkNodeSnapshot,
+  root: string = ""
+): AuditFinding[] {
+  const violations: AuditFinding[] = [];
+  const report = (ruleId: string, message: string, file?: string): void => {
+    violations.push(createAuditFinding(root, ruleId, message, file ? { file } : {}));
+  };
+  const recorded = new Set(before.migrations.map((migration) => migration.raw));
+  if (!isSubsequence([...recorded], after.migrations.map((migration) => migration.raw))) {
+    report("history-migrations", `${MIGRATIONS_FILENAME} lost entries that existed in the baseline`, MIGRATIONS_FILENAME);
+  }
+  const migrations = replayMigrations(after.migrations.filter((migration) => !recorded.has(migration.raw)));
+  const renamedLogs = new Map<string, string>();
+  const retitledLogs = new Set<string>();
+  const afterRows = new Map(after.state.entries.map((entry) => [entry.step, entry]));
+  const beforeIds = new Set(before.state.entries.map((entry) => entry.step));
+  const addedByLabel = new Map(
+    after.state.entries.filter((entry) => !beforeIds.has(entry.step)).map((entry) => [entry.label, entry])
+  );
+
+  for (const previous of before.state.entries) {
+    const completed = COMPLETED_STATUSES.has(previous.status);
+    const currentId = completed ? previous.step : migrations.resolve(previous.step);
+    const current = afterRows.get(currentId);
+    const migrated = !completed && migrations.touched.has(currentId);
+    const previousLogPath = `logs/p${previous.phase}-s${previous.step}.md`;
+    const hadLog = previous.progressLog !== null || before.logs.has(previousLogPath);
+    if (migrated) {
+      renamedLogs.set(previousLogPath, `logs/p${previous.phase}-s${currentId}.md`);
+      retitledLogs.add(previousLogPath);
+    }
+
+    if (!current) {
+      const reidentified = addedByLabel.get(previous.label);
+      if (reidentified) {
+        report("history-reidentified-step", `step ${describeRow(previous)} was re-identified as ${reidentified.step}`, "STATE.md");
+      } else if (completed) {
+        report("history-removed-step", `${previous.status} step ${describeRow(previous)} was removed`, "STATE.md");
+      } else if (hadLog || previous.status !== "todo") {
+        report(
+          "history-removed-step",
+          `${previous.status} step ${describeRow(previous)} was removed although it has progress`,
+          "STATE.md"
+        );
+      }
+      continue;
+    }
+
+    if (current.label !== previous.label && !migrated) {
+      if (completed) {
+        report(
+          "history-relabeled-step",
+          `label of ${previous.status} step ${previous.step} changed from '${previous.label}' to '${current.label}'`,
+          "STATE.md"
+        );
+      } else if (previous.status === "in-progress" && previous.progressLog) {
+        const beforeLog = before.logs.get(previous.progressLog);
+        const afterLog = after.logs.get(current.progressLog ?? previous.progressLog);
+        if (beforeLog !== undefined && beforeLog === afterLog) {
+          report(
+            "history-relabeled-step",
+            `label of in-progress step ${previous.step} changed from '${previous.label}' to '${current.label}' without an explanation in its log`,
+            "STATE.md"
+          );
+        }
+      }
+    }
+
+    // `reopened:` outlives later transitions (reopen → block → unblock); `previous-status`
+    // covers logs reopened before that header existed.
+    const currentLog = StepLog.parse(after.logs.get(`logs/p${current.phase}-s${current.step}.md`) ?? "");
+    const reopenedAt = currentLog.getHeader("reopened");
+    const baselineReopenedAt = StepLog.parse(before.logs.get(previousLogPath) ?? "").getHeader("reopened");
+    const reopened =
+      previous.status === "done" &&
+      current.status !== "todo" &&
+      ((reopenedAt !== undefined && reopenedAt !== baselineReopenedAt) ||
+        (current.status === "in-progress" && currentLog.previousStatus === "done"));
+    if (completed && current.status !== previous.status && !reopened) {
+      report(
+        "history-status-regression",
+        `status of step ${describeRow(previous)} regressed from ${previous.status} to ${current.status}`,
+        "STATE.md"
+      );
+    } else if (previous.status === "in-progress" && current.status === "todo") {
+      report("history-status-regression", `status of step ${describeRow(previous)} regressed from in-progress to todo`, "STATE.md");
+    }
+
+    if (completed) {
+      const previousDetails = before.plan.find(previous.phase, previous.step)?.details ?? [];
+      const currentDetails = after.plan.find(current.phase, current.step)?.details ?? [];
+      if (!isSubsequence(previousDetails, currentDetails)) {
+        report(
+          "history-plan-details",
+          `PLAN details of ${previous.status} step ${describeRow(previous)} were changed or removed`,
+          "PLAN.md"
+        );
+      }
+    }
+  }
+
+  for (const [previousPath, previousContents] of before.logs.entries()) {
+    const logPath = renamedLogs.get(previousPath) ?? previousPath;
+    const currentContents = after.logs.get(logPath);
+    if (currentContents === undefined) {
+      report("history-log-deleted", `log ${previousPath} was deleted`, previousPath);
+      continue;
+    }
+    const previousLog = StepLog.parse(previousContents);
+    const currentLog = StepLog.parse(currentContents);
+    const previousStarted = previousLog.getHeader("started");
+    const currentStarted = currentLog.getHeader("started");
+    if (previousStarted && previousStarted !== currentStarted) {
+      report(
+        "history-log-started",
+        `log ${logPath} changed its started timestamp from ${previousStarted} to ${currentStarted ?? "nothing"}`,
+        logPath
+      );
+    }
+    const ignoreTitle = retitledLogs.has(previousPath);
+    if (!isSubsequence(normalizeLogHistory(previousLog, ignoreTitle), normalizeLogHistory(currentLog, ignoreTitle))) {
+      report("history-log-truncated", `log ${logPath} lost history that existed in the baseline`, logPath);
+    }
+  }
+
+  return violations;
+}
+
+export async function loadBaselineSnapshot(
+  layout: WorkNodeLayout,
+  auditRoot: string,
+  since: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeSnapshot | null> {
+  const snapshotRoot = path.resolve(since);
+  if ((await storage.stat(snapshotRoot).catch(() => null)) === "directory") {
+    return loadSnapshotFromDirectory(path.join(snapshotRoot, path.relative(path.resolve(auditRoot), layout.root)), storage);
+  }
+  return loadSnapshotFromGit(layout.root, since);
+}
+
+/**
+ * Paths relative to `auditRoot` (`""` for the root itself) of the WorkNodes in the
+ * baseline: a saved copy of the tree or a git revision.
+ */
+export async function listBaselineWorkNodes(
+  auditRoot: string,
+  since: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<string[]> {
+  const snapshotRoot = path.resolve(since);
+  if ((await storage.stat(snapshotRoot).catch(() => null)) === "directory") {
+    const layouts = await discoverWorkNodes(snapshotRoot, storage);
+    return layouts.map((layout) => path.relative(snapshotRoot, layout.root).split(path.sep).join("/"));
+  }
+  const { prefix, files } = await listGitFiles(auditRoot, since);
+  const nodes: string[] = [];
+  for (const file of files) {
+    const relative = prefix ? file.slice(prefix.length + 1) : file;
+    if (path.posix.basename(relative) !== "PLAN.md") {
+      continue;
+    }
+    const directory = path.posix.dirname(relative);
+    const node = directory === "." ? "" : directory;
+    const ignored = node.split("/").some((segment) => IGNORED_DIRECTORY_NAMES.has(segment));
+    const stateFile = path.posix.join(prefix, node, "STATE.md");
+    if (!ignored && files.has(stateFile)) {
+      nodes.push(node);
+    }
+  }
+  return nodes.sort();
+}
+
+export async function auditWorkNodeHistory(
+  layout: WorkNodeLayout,
+  auditRoot: string,
+  since: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<AuditFinding[]> {
+  const baseline = await loadBaselineSnapshot(layout, auditRoot, since, storage);
+  if (!baseline) {
+    return [];
+  }
+  const current = await loadSnapshotFromDirectory(layout.root, storage);
+  if (!current) {
+    return [createAuditFinding(layout.root, "history-removed-step", "PLAN.md or STATE.md disappeared since the baseline")];
+  }
+  return compareWorkNodeSnapshots(baseline, current, layout.root);
+}
+
+/**
+ * Audits the nodes under `root` and compares each with the baseline `since`: a saved copy
+ * of the tree (read through `storage`) or a git revision (read with git).
+ */
+export async function auditWorkNodesSince(
+  root: string,
+  since: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<AuditResult[]> {
+  const results = await auditWorkNodes(root, storage);
+  for (const result of results) {
+    const config = await readWorkNodeConfig(result.layout, storage).catch(() => ({ rules: {} }));
+    let findings: AuditFinding[];
+    try {
+      findings = await auditWorkNodeHistory(result.layout, root, since, storage);
+    } catch (error) {
+      findings = [
+        createAuditFinding(result.layout.root, "history-unavailable", `history audit failed: ${(error as Error).message}`)
+      ];
+    }
+    result.findings.push(...applyAuditRuleSettings(findings, config));
+  }
+
+  const auditRoot = path.resolve(root);
+  const current = new Set(results.map((result) => path.relative(auditRoot, result.layout.root).split(path.sep).join("/")));
+  let baselineNodes: string[];
+  try {
+    baselineNodes = await listBaselineWorkNodes(auditRoot, since, storage);
+  } catch {
+    // The per-node history audits above already report an unreadable baseline.
+    return results;
+  }
+  for (const relative of baselineNodes.filter((node) => !current.has(node))) {
+    const nodeRoot = path.join(auditRoot, relative);
+    const layout: WorkNodeLayout = {
+      root: nodeRoot,
+      planPath: path.join(nodeRoot, "PLAN.md"),
+      statePath: path.join(nodeRoot, "STATE.md"),
+      logsDir: path.join(nodeRoot, "logs")
+    };
+    const findings: AuditFinding[] = [];
+    try {
+      const baseline = await loadBaselineSnapshot(layout, auditRoot, since, storage);
+      if (baseline) {
+        const completed = baseline.state.entries.filter((entry) => COMPLETED_STATUSES.has(entry.status)).length;
+        findings.push(
+          createAuditFinding(
+            nodeRoot,
+            "history-removed-node",
+            `WorkNode ${relative || "."} was deleted since the baseline (${completed} completed step(s))`
+          ),
+          ...compareWorkNodeSnapshots(baseline, EMPTY_SNAPSHOT, nodeRoot)
+        );
+      }
+    } catch (error) {
+      findings.push(createAuditFinding(nodeRoot, "history-unavailable", `history audit failed: ${(error as Error).message}`));
+    }
+    results.push({ layout, findings });
+  }
+  return results.sort((a, b) => a.layout.root.localeCompare(b.layout.root));
+}
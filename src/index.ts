@@ -1 +1,21 @@
 export * from "./work-node.js";
+export * from "./history.js";
+export * from "./lock.js";
+export * from "./mcp.js";
+export * from "./migrations.js";
+export * from "./node-config.js";
+export * from "./prompt.js";
+export * from "./report.js";
+export * from "./step-log.js";
+export * from "./storage.js";
+export * from "./audit-report.js";
+export * from "./exec.js";
+export * from "./export.js";
+export * from "./fix.js";
+export * from "./graph.js";
+export * from "./watch.js";
+export * from "./runner.js";
+export * from "./server.js";
+export * from "./site.js";
+export * from "./events.js";
+export * from "./transaction.js";
@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import os from "node:os";
+import { test } from "node:test";
+import { LOCK_FILENAME, acquireWorkNodeLock, assertWorkNodeWritable, releaseWorkNodeLock } from "./lock.js";
+import { MemoryStorage } from "./storage.js";
+import type { WorkNodeLayout } from "./work-node.js";
+
+const layout: WorkNodeLayout = {
+  root: "/tree/api",
+  planPath: "/tree/api/PLAN.md",
+  statePath: "/tree/api/STATE.md",
+  logsDir: "/tree/api/logs"
+};
+
+test("the lease is re-entrant only for the session that took it", async () => {
+  const storage = new MemoryStorage();
+  const lock = await acquireWorkNodeLock(layout, { owner: "agent", storage });
+
+  await assert.rejects(acquireWorkNodeLock(layout, { owner: "agent", storage }), /in another session/);
+  await assert.rejects(acquireWorkNodeLock(layout, { owner: "agent", session: "other", storage }), /in another session/);
+  const renewed = await acquireWorkNodeLock(layout, { owner: "agent", session: lock.session, storage });
+  assert.equal(renewed.session, lock.session);
+});
+
+test("only the holding session may write or release the node", async () => {
+  const storage = new MemoryStorage();
+  const lock = await acquireWorkNodeLock(layout, { owner: "agent", storage });
+
+  await assert.rejects(assertWorkNodeWritable(layout, "agent", storage, undefined), /is locked by agent/);
+  await assert.rejects(assertWorkNodeWritable(layout, "other", storage, lock.session), /is locked by agent/);
+  await assertWorkNodeWritable(layout, "agent", storage, lock.session);
+
+  await assert.rejects(releaseWorkNodeLock(layout, { owner: "agent", session: "other", storage }), /--force/);
+  await releaseWorkNodeLock(layout, { owner: "agent", session: lock.session, storage });
+  await assertWorkNodeWritable(layout, "other", storage, undefined);
+});
+
+const STALE_LOCK = {
+  owner: "gone",
+  session: "old",
+  pid: 1,
+  host: os.hostname(),
+  acquiredAt: "2020-01-01T00:00:00.000Z",
+  ttlSeconds: 60
+};
+
+test("an unreadable lock is reported and left in place", async () => {
+  const storage = new MemoryStorage({ [`${layout.root}/${LOCK_FILENAME}`]: "{" });
+
+  await assert.rejects(acquireWorkNodeLock(layout, { owner: "agent", storage }), /not valid JSON; it was left in place/);
+  assert.equal(await storage.readFile(`${layout.root}/${LOCK_FILENAME}`), "{");
+});
+
+test("a stale lock is broken, but a lease taken meanwhile is put back", async () => {
+  const lockFile = `${layout.root}/${LOCK_FILENAME}`;
+  const stale = new MemoryStorage({ [lockFile]: JSON.stringify(STALE_LOCK) });
+  const lock = await acquireWorkNodeLock(layout, { owner: "agent", storage: stale });
+  assert.deepEqual(Object.keys(stale.snapshot()), [lockFile]);
+  assert.equal(JSON.parse(await stale.readFile(lockFile)).session, lock.session);
+
+  /** Lets a rival break the stale lock and take the lease just before our rename. */
+  class RacingStorage extends MemoryStorage {
+    override async rename(from: string, to: string): Promise<void> {
+      await super.writeFile(from, JSON.stringify({ ...STALE_LOCK, owner: "rival", acquiredAt: new Date().toISOString() }));
+      await super.rename(from, to);
+    }
+  }
+  const racing = new RacingStorage({ [lockFile]: JSON.stringify(STALE_LOCK) });
+  await assert.rejects(acquireWorkNodeLock(layout, { owner: "agent", storage: racing }), /is locked by rival/);
+  assert.deepEqual(Object.keys(racing.snapshot()), [lockFile]);
+  assert.equal(JSON.parse(await racing.readFile(lockFile)).owner, "rival");
+});
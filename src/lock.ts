@@ -0,0 +1,242 @@
+import { randomUUID } from "node:crypto";
+import os from "node:os";
+import path from "node:path";
+import { fileSystemStorage } from "./storage.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { WorkNodeLayout } from "./work-node.js";
+
+export const LOCK_FILENAME = ".worktree.lock";
+export const DEFAULT_LOCK_TTL_SECONDS = 60 * 60;
+
+export interface WorkNodeLock {
+  owner: string;
+  /**
+   * Token of the session that took the lease. Only that session may continue it, so two
+   * agents running as the same user on the same host cannot both hold it.
+   */
+  session: string;
+  pid: number;
+  host: string;
+  acquiredAt: string;
+  ttlSeconds: number;
+}
+
+export interface LockOptions {
+  owner?: string;
+  /** Session to continue; a new one is started when omitted. */
+  session?: string;
+  ttlSeconds?: number;
+  now?: Date;
+  storage?: WorkNodeStorage;
+}
+
+export function defaultLockOwner(): string {
+  if (process.env.WORKTREE_OWNER) {
+    return process.env.WORKTREE_OWNER;
+  }
+  try {
+    return os.userInfo().username;
+  } catch {
+    return "unknown";
+  }
+}
+
+/** The lease session this process continues, from `WORKTREE_SESSION`. */
+export function defaultLockSession(): string | undefined {
+  return process.env.WORKTREE_SESSION || undefined;
+}
+
+export function lockPath(layout: WorkNodeLayout): string {
+  return path.join(layout.root, LOCK_FILENAME);
+}
+
+export function lockExpiresAt(lock: WorkNodeLock): Date {
+  return new Date(Date.parse(lock.acquiredAt) + lock.ttlSeconds * 1000);
+}
+
+export function isLockStale(lock: WorkNodeLock, now: Date = new Date()): boolean {
+  const expiresAt = lockExpiresAt(lock).getTime();
+  return Number.isNaN(expiresAt) || expiresAt <= now.getTime();
+}
+
+export function isLockHeldBy(
+  lock: WorkNodeLock,
+  owner: string = defaultLockOwner(),
+  session: string | undefined = defaultLockSession()
+): boolean {
+  return lock.owner === owner && lock.host === os.hostname() && session !== undefined && lock.session === session;
+}
+
+export function describeLock(lock: WorkNodeLock): string {
+  return `${lock.owner}@${lock.host} (pid ${lock.pid}) since ${lock.acquiredAt}`;
+}
+
+function parseLock(contents: string, filePath: string): WorkNodeLock {
+  let parsed: Partial<WorkNodeLock>;
+  try {
+    parsed = JSON.parse(contents) as Partial<WorkNodeLock>;
+  } catch {
+    throw new Error(`lock file ${filePath} is not valid JSON`);
+  }
+  if (
+    typeof parsed.owner !== "string" ||
+    typeof parsed.session !== "string" ||
+    typeof parsed.pid !== "number" ||
+    typeof parsed.host !== "string" ||
+    typeof parsed.acquiredAt !== "string" ||
+    Number.isNaN(Date.parse(parsed.acquiredAt)) ||
+    typeof parsed.ttlSeconds !== "number"
+  ) {
+    throw new Error(`lock file ${filePath} is missing or has an invalid owner, session, pid, host, acquiredAt, or ttlSeconds`);
+  }
+  return parsed as WorkNodeLock;
+}
+
+async function readLockFile(filePath: string, storage: WorkNodeStorage): Promise<string | null> {
+  try {
+    return await storage.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function readWorkNodeLock(
+  layout: WorkNodeLayout,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeLock | null> {
+  const filePath = lockPath(layout);
+  const contents = await readLockFile(filePath, storage);
+  return contents === null ? null : parseLock(contents, filePath);
+}
+
+function buildLock(options: LockOptions): WorkNodeLock {
+  return {
+    owner: options.owner ?? defaultLockOwner(),
+    session: options.session ?? randomUUID(),
+    pid: process.pid,
+    host: os.hostname(),
+    acquiredAt: (options.now ?? new Date()).toISOString(),
+    ttlSeconds: options.ttlSeconds ?? DEFAULT_LOCK_TTL_SECONDS
+  };
+}
+
+function lockedError(layout: WorkNodeLayout, lock: WorkNodeLock, owner: string, suffix = ""): Error {
+  const hint = lock.owner === owner && lock.host === os.hostname() ? " in another session (see WORKTREE_SESSION)" : "";
+  return new Error(`WorkNode ${layout.root} is locked by ${describeLock(lock)}${hint}${suffix}`);
+}
+
+/**
+ * Acquires (or renews) the node lease. The lock is re-entrant only for the session that
+ * took it, so `run` and `run --complete` issued from separate processes must carry the
+ * same `session` (the CLI reads it from `WORKTREE_SESSION` or `--session`).
+ */
+export async function acquireWorkNodeLock(layout: WorkNodeLayout, options: LockOptions = {}): Promise<WorkNodeLock> {
+  const filePath = lockPath(layout);
+  const storage = options.storage ?? fileSystemStorage;
+  const lock = buildLock(options);
+  const serialized = `${JSON.stringify(lock, null, 2)}\n`;
+
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    try {
+      await storage.writeFile(filePath, serialized, { exclusive: true });
+      return lock;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const observed = await readLockFile(filePath, storage);
+    if (observed === null) {
+      continue;
+    }
+    let existing: WorkNodeLock;
+    try {
+      existing = parseLock(observed, filePath);
+    } catch (error) {
+      throw new Error(`${(error as Error).message}; it was left in place, remove it with 'worktree unlock --force'`);
+    }
+    if (!isLockStale(existing, options.now)) {
+      if (!isLockHeldBy(existing, lock.owner, options.session)) {
+        throw lockedError(layout, existing, lock.owner);
+      }
+      await storage.writeFile(filePath, serialized);
+      return lock;
+    }
+    await breakStaleLock(filePath, observed, storage);
+  }
+
+  throw new Error(`failed to acquire lock for ${layout.root}`);
+}
+
+/**
+ * Moves the stale lock `observed` aside so the lease can be taken again. Renaming moves
+ * whatever file is there now, so the moved file is compared with `observed`: when another
+ * process took the lease in between, its lock is put back.
+ */
+async function breakStaleLock(filePath: string, observed: string, storage: WorkNodeStorage): Promise<void> {
+  const aside = `${filePath}.stale-${randomUUID()}`;
+  try {
+    await storage.rename(filePath, aside);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return;
+    }
+    throw error;
+  }
+  const moved = await storage.readFile(aside);
+  if (moved !== observed) {
+    try {
+      await storage.writeFile(filePath, moved, { exclusive: true });
+    } catch (error) {
+      // EEXIST: yet another process took the lease meanwhile, and the holder we displaced
+      // is refused on its next write. Anything else leaves the moved lock for a human.
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+  }
+  await storage.remove(aside);
+}
+
+export async function releaseWorkNodeLock(
+  layout: WorkNodeLayout,
+  options: { owner?: string; session?: string; force?: boolean; storage?: WorkNodeStorage } = {}
+): Promise<WorkNodeLock | null> {
+  const storage = options.storage ?? fileSystemStorage;
+  const existing = await readWorkNodeLock(layout, storage).catch((error) => {
+    if (options.force) {
+      return null;
+    }
+    throw error;
+  });
+  if (
+    existing &&
+    !options.force &&
+    !isLockStale(existing) &&
+    !isLockHeldBy(existing, options.owner ?? defaultLockOwner(), options.session ?? defaultLockSession())
+  ) {
+    throw lockedError(layout, existing, options.owner ?? defaultLockOwner(), "; use --force to break it");
+  }
+  await storage.remove(lockPath(layout));
+  return existing;
+}
+
+/**
+ * Throws when another session holds a live lease on the node. Nodes without a lock file
+ * are left alone so library users that never lock keep working.
+ */
+export async function assertWorkNodeWritable(
+  layout: WorkNodeLayout,
+  owner: string = defaultLockOwner(),
+  storage: WorkNodeStorage = fileSystemStorage,
+  session: string | undefined = defaultLockSession()
+): Promise<void> {
+  const existing = await readWorkNodeLock(layout, storage);
+  if (existing && !isLockStale(existing) && !isLockHeldBy(existing, owner, session)) {
+    throw lockedError(layout, existing, owner);
+  }
+}
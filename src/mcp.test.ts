@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PassThrough } from "node:stream";
+import { test } from "node:test";
+import { McpSession, serveMcpStdio } from "./mcp.js";
+import { WorkNode } from "./work-node.js";
+
+const STEPS = [{ phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] }];
+
+async function createNode(t: { after(fn: () => Promise<void>): void }): Promise<string> {
+  const scratch = await fs.mkdtemp(path.join(os.tmpdir(), "worktree-mcp-"));
+  t.after(() => fs.rm(scratch, { recursive: true, force: true }));
+  const root = path.join(scratch, "api");
+  await WorkNode.initialize(root, STEPS);
+  return root;
+}
+
+/** Calls a tool and returns its decoded JSON payload. */
+async function callTool(session: McpSession, name: string, args: Record<string, unknown> = {}) {
+  const params = { name, arguments: args };
+  const response = await session.handleMessage({ jsonrpc: "2.0", id: 1, method: "tools/call", params });
+  const result = response?.result as { isError?: boolean; content: Array<{ text: string }> };
+  return { isError: result.isError === true, payload: JSON.parse(result.content[0].text) };
+}
+
+/** The input properties complete_step advertises in tools/list. */
+async function completeStepProperties(session: McpSession): Promise<string[]> {
+  const listed = await session.handleMessage({ jsonrpc: "2.0", id: 1, method: "tools/list" });
+  const { tools } = listed?.result as { tools: Array<{ name: string; inputSchema: { properties: object } }> };
+  return Object.keys(tools.find((tool) => tool.name === "complete_step")?.inputSchema.properties ?? {});
+}
+
+test("answers messages that are not request objects with Invalid request", async (t) => {
+  const session = new McpSession(await createNode(t));
+  for (const message of [null, 42, "tools/list", [{ jsonrpc: "2.0", id: 1, method: "ping" }]]) {
+    assert.deepEqual(await session.handleMessage(message), {
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: -32600, message: "Invalid request" }
+    });
+  }
+  const badParams = await session.handleMessage({ jsonrpc: "2.0", id: 2, method: "tools/list", params: "all" });
+  assert.equal(badParams?.error?.code, -32602);
+  assert.equal(await session.handleMessage({ jsonrpc: "2.0", method: "notifications/initialized" }), null);
+});
+
+test("keeps serving stdio after malformed lines", async (t) => {
+  const root = await createNode(t);
+  const input = new PassThrough();
+  const output = new PassThrough();
+  const served = serveMcpStdio(root, { input, output });
+  input.end(['{"jsonrpc":', "null", '{"jsonrpc":"2.0","id":7,"method":"ping"}', ""].join("\n"));
+  await served;
+
+  const replies = output
+    .read()
+    .toString("utf8")
+    .trim()
+    .split("\n")
+    .map((line: string) => JSON.parse(line));
+  assert.deepEqual(
+    replies.map((reply: { id: unknown; error?: { code: number } }) => [reply.id, reply.error?.code ?? null]),
+    [
+      [null, -32700],
+      [null, -32600],
+      [7, null]
+    ]
+  );
+});
+
+test("complete_step does not accept force by default", async (t) => {
+  const session = new McpSession(await createNode(t), { owner: "agent" });
+  assert.deepEqual(await completeStepProperties(session), []);
+
+  assert.equal((await callTool(session, "start_step")).isError, false);
+  assert.equal((await callTool(session, "complete_step", { force: true })).payload.error.code, "invalid-arguments");
+  assert.equal((await callTool(session, "complete_step")).payload.error.code, "step-incomplete");
+});
+
+test("allowForce lets complete_step override the completion checks", async (t) => {
+  const session = new McpSession(await createNode(t), { owner: "agent", allowForce: true });
+  assert.deepEqual(await completeStepProperties(session), ["force"]);
+
+  await callTool(session, "start_step");
+  const completed = await callTool(session, "complete_step", { force: true });
+  assert.equal(completed.isError, false);
+  assert.equal(completed.payload.step.status, "done");
+});
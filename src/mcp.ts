@@ -0,0 +1,504 @@
+import { existsSync, promises as fs } from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { fileURLToPath } from "node:url";
+import { buildAuditJsonReport } from "./audit-report.js";
+import { auditWorkNodesSince } from "./history.js";
+import { assertWorkNodeWritable, defaultLockOwner } from "./lock.js";
+import { RunStepError, runWorkNodeStep } from "./runner.js";
+import { fileSystemStorage } from "./storage.js";
+import type { WorkNodeStorage } from "./storage.js";
+import { recoverWorkNodeTransaction } from "./transaction.js";
+import { WorkNode, auditWorkNodes, validateWorkNodeLayout } from "./work-node.js";
+import type { WorkNodeLayout } from "./work-node.js";
+
+export const MCP_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"] as const;
+
+/** Codes carried in the `{ "error": { "code", "message" } }` text of failed tool calls. */
+export type McpToolErrorCode =
+  | "invalid-arguments"
+  | "unknown-tool"
+  | "node-inconsistent"
+  | "no-actionable-step"
+  | "node-locked"
+  | "step-incomplete"
+  | "step-not-found"
+  | "no-step-started"
+  | "step-in-progress"
+  | "run-finished";
+
+export interface McpSessionOptions {
+  /** Lease owner used for the step this session runs (default `defaultLockOwner()`). */
+  owner?: string;
+  ttlSeconds?: number;
+  toolVersion?: string;
+  /**
+   * Offer `force` on complete_step, letting the agent complete a step whose log fails the
+   * completion checks. Off by default; the operator enables it (`worktree mcp --allow-force`).
+   */
+  allowForce?: boolean;
+  /** Backend the node is read and written through (default the file system). */
+  storage?: WorkNodeStorage;
+}
+
+interface JsonRpcMessage {
+  jsonrpc?: string;
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface McpTool {
+  name: string;
+  description: string;
+  inputSchema: { type: "object"; properties: Record<string, unknown>; required?: string[] };
+}
+
+class McpToolError extends Error {
+  readonly code: McpToolErrorCode;
+
+  constructor(code: McpToolErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+/** JSON-RPC level failure (unknown method, bad params); tool failures use `McpToolError`. */
+class McpRequestError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const NO_ARGUMENTS = { type: "object", properties: {} } as const;
+
+const MCP_TOOLS: McpTool[] = [
+  {
+    name: "get_next_step",
+    description: "Return the next actionable step of the WorkNode (WORK_PROTOCOL §5) with its plan details.",
+    inputSchema: NO_ARGUMENTS
+  },
+  { name: "read_plan", description: "Return the WorkNode's PLAN.md.", inputSchema: NO_ARGUMENTS },
+  { name: "read_state", description: "Return the WorkNode's STATE.md.", inputSchema: NO_ARGUMENTS },
+  {
+    name: "read_log",
+    description: "Return a step log. Defaults to the step started in this session, or the in-progress step.",
+    inputSchema: { type: "object", properties: { step: { type: "string", description: "Step identifier, e.g. 1.2" } } }
+  },
+  {
+    name: "start_step",
+    description:
+      "Start the next actionable step: take the node lease, create its log, and mark it in-progress. " +
+      "A session may start only one step (WORK_PROTOCOL §6).",
+    inputSchema: NO_ARGUMENTS
+  },
+  {
+    name: "append_note",
+    description: "Append a timestamped entry to ## Notes of the step started in this session.",
+    inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] }
+  },
+  {
+    name: "record_outcome",
+    description: "Append an entry to ## Outcomes of the step started in this session.",
+    inputSchema: { type: "object", properties: { text: { type: "string" } }, required: ["text"] }
+  },
+  {
+    name: "complete_step",
+    description:
+      "Mark the step started in this session done and release the lease. Refused while checklist items are " +
+      "unchecked or ## Outcomes is empty.",
+    inputSchema: NO_ARGUMENTS
+  },
+  {
+    name: "audit",
+    description: "Audit the WorkNode; with since, also check history against that git revision.",
+    inputSchema: { type: "object", properties: { since: { type: "string", description: "Git revision" } } }
+  }
+];
+
+/** complete_step as offered when the operator allows forced completion. */
+const FORCEABLE_COMPLETE_STEP: McpTool = {
+  name: "complete_step",
+  description:
+    "Mark the step started in this session done and release the lease. Refused while checklist items are " +
+    "unchecked or ## Outcomes is empty, unless force is set (the override is recorded in ## Notes).",
+  inputSchema: { type: "object", properties: { force: { type: "boolean" } } }
+};
+
+const PROTOCOL_URI = "worktree://protocol";
+const NODE_URI_PREFIX = "worktree://node/";
+
+/**
+ * Locates WORK_PROTOCOL.md for a node: the nearest `docs/work/WORK_PROTOCOL.md` above it,
+ * falling back to the copy shipped with this package.
+ */
+export function findWorkProtocol(nodeRoot: string): string | null {
+  let directory = path.resolve(nodeRoot);
+  for (;;) {
+    const candidate = path.join(directory, "docs", "work", "WORK_PROTOCOL.md");
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      break;
+    }
+    directory = parent;
+  }
+  const bundled = fileURLToPath(new URL("../docs/work/WORK_PROTOCOL.md", import.meta.url));
+  return existsSync(bundled) ? bundled : null;
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireText(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new McpToolError("invalid-arguments", `'${key}' must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalText(args: Record<string, unknown>, key: string): string | undefined {
+  return args[key] === undefined || args[key] === null ? undefined : requireText(args, key);
+}
+
+/**
+ * One MCP session over a single WorkNode. The session remembers the step it started, so
+ * notes, outcomes, and completion apply to that step, and refuses to start another one:
+ * an agent session is one run in the sense of WORK_PROTOCOL §6.
+ */
+export class McpSession {
+  private readonly owner: string;
+  private readonly storage: WorkNodeStorage;
+  private startedStep: string | null = null;
+  /** Lease session taken by start_step; notes and completion continue it. */
+  private session: string | undefined;
+  private finished = false;
+
+  constructor(
+    readonly root: string,
+    private readonly options: McpSessionOptions = {}
+  ) {
+    this.owner = options.owner ?? defaultLockOwner();
+    this.storage = options.storage ?? fileSystemStorage;
+  }
+
+  /**
+   * Handles one parsed JSON-RPC message; returns the response, or null for notifications.
+   * Anything but a request object (including batches) is answered with Invalid request.
+   */
+  async handleMessage(value: unknown): Promise<JsonRpcResponse | null> {
+    if (!isJsonObject(value)) {
+      return { jsonrpc: "2.0", id: null, error: { code: -32600, message: "Invalid request" } };
+    }
+    const message = value as JsonRpcMessage;
+    const validId =
+      message.id === undefined || message.id === null || typeof message.id === "string" || typeof message.id === "number";
+    const id = validId ? message.id ?? null : null;
+    const isNotification = message.id === undefined;
+    if (message.jsonrpc !== "2.0" || typeof message.method !== "string" || !validId) {
+      return isNotification ? null : { jsonrpc: "2.0", id, error: { code: -32600, message: "Invalid request" } };
+    }
+    if (message.params !== undefined && !isJsonObject(message.params)) {
+      return isNotification ? null : { jsonrpc: "2.0", id, error: { code: -32602, message: "params must be an object" } };
+    }
+    try {
+      const result = await this.dispatch(message.method, message.params ?? {});
+      return isNotification ? null : { jsonrpc: "2.0", id, result };
+    } catch (error) {
+      if (isNotification) {
+        return null;
+      }
+      const code = error instanceof McpRequestError ? error.code : -32603;
+      return { jsonrpc: "2.0", id, error: { code, message: (error as Error).message } };
+    }
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+    switch (method) {
+      case "initialize": {
+        const requested = params.protocolVersion;
+        const protocolVersion = MCP_PROTOCOL_VERSIONS.find((version) => version === requested) ?? MCP_PROTOCOL_VERSIONS[0];
+        return {
+          protocolVersion,
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: "worktree", version: this.options.toolVersion ?? "0.0.0" },
+          instructions:
+            "Follow WORK_PROTOCOL.md (resource worktree://protocol). Start one step per session with start_step, " +
+            "log each atomic action with append_note, record outcomes, then call complete_step."
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return {
+          tools: this.options.allowForce
+            ? MCP_TOOLS.map((tool) => (tool.name === FORCEABLE_COMPLETE_STEP.name ? FORCEABLE_COMPLETE_STEP : tool))
+            : MCP_TOOLS
+        };
+      case "tools/call": {
+        if (typeof params.name !== "string") {
+          throw new McpRequestError(-32602, "tools/call requires a tool name");
+        }
+        const args = params.arguments ?? {};
+        if (!isJsonObject(args)) {
+          throw new McpRequestError(-32602, "tools/call arguments must be an object");
+        }
+        try {
+          const result = await this.callTool(params.name, args);
+          return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
+        } catch (error) {
+          const failure =
+            error instanceof McpToolError ? error : new McpToolError("node-inconsistent", (error as Error).message);
+          return {
+            isError: true,
+            content: [{ type: "text", text: JSON.stringify({ error: { code: failure.code, message: failure.message } }) }]
+          };
+        }
+      }
+      case "resources/list":
+        return { resources: await this.listResources() };
+      case "resources/read": {
+        if (typeof params.uri !== "string") {
+          throw new McpRequestError(-32602, "resources/read requires a uri");
+        }
+        return { contents: [await this.readResource(params.uri)] };
+      }
+      default:
+        if (method.startsWith("notifications/")) {
+          return {};
+        }
+        throw new McpRequestError(-32601, `Method not found: ${method}`);
+    }
+  }
+
+  private async layout(): Promise<WorkNodeLayout> {
+    try {
+      return await validateWorkNodeLayout(this.root, this.storage);
+    } catch (error) {
+      throw new McpToolError("node-inconsistent", (error as Error).message);
+    }
+  }
+
+  /** Loads the node; writing tools pass `forUpdate` to first finish an interrupted operation. */
+  private async loadNode(forUpdate = false): Promise<WorkNode> {
+    const layout = await this.layout();
+    try {
+      if (forUpdate) {
+        await recoverWorkNodeTransaction(layout, this.storage);
+      }
+      const node = await WorkNode.loadFromLayout(layout, this.storage);
+      node.lockOwner = this.owner;
+      node.lockSession = this.session;
+      node.command = "mcp";
+      return node;
+    } catch (error) {
+      throw new McpToolError("node-inconsistent", (error as Error).message);
+    }
+  }
+
+  private activeStep(): string {
+    if (this.finished) {
+      throw new McpToolError("run-finished", `step ${this.startedStep} is already done; this run is over (WORK_PROTOCOL §6)`);
+    }
+    if (!this.startedStep) {
+      throw new McpToolError("no-step-started", "no step has been started in this session; call start_step first");
+    }
+    return this.startedStep;
+  }
+
+  private async callTool(name: string, args: Record<string, unknown>): Promise<unknown> {
+    switch (name) {
+      case "get_next_step": {
+        const node = await this.loadNode();
+        const step = node.getNextActionableStep() ?? null;
+        return { step, details: step ? node.plan.find(step.phase, step.step)?.details ?? [] : [] };
+      }
+      case "read_plan":
+        return { path: "PLAN.md", contents: await this.storage.readFile((await this.layout()).planPath) };
+      case "read_state":
+        return { path: "STATE.md", contents: await this.storage.readFile((await this.layout()).statePath) };
+      case "read_log": {
+        const node = await this.loadNode();
+        const step = optionalText(args, "step") ?? this.startedStep ?? undefined;
+        let paths;
+        try {
+          ({ paths } = await node.resolveActiveLog(step));
+        } catch (error) {
+          throw new McpToolError("step-not-found", (error as Error).message);
+        }
+        return { path: paths.relative, contents: await this.storage.readFile(paths.absolute) };
+      }
+      case "start_step": {
+        if (this.finished || this.startedStep) {
+          throw this.finished
+            ? new McpToolError("run-finished", `step ${this.startedStep} was completed in this session; a run executes one step (WORK_PROTOCOL §6)`)
+            : new McpToolError("step-in-progress", `this session already started step ${this.startedStep}; complete it before ending the run`);
+        }
+        const result = await this.runStep(false);
+        this.startedStep = result.step.step;
+        this.session = result.session;
+        return {
+          step: result.node.state.findById(result.step.step),
+          details: result.planStep.details ?? [],
+          logPath: result.logPath
+        };
+      }
+      case "append_note":
+      case "record_outcome": {
+        const text = requireText(args, "text");
+        const step = this.activeStep();
+        const node = await this.loadNode(true);
+        try {
+          await assertWorkNodeWritable(node.layout, this.owner, this.storage, this.session);
+        } catch (error) {
+          throw new McpToolError("node-locked", (error as Error).message);
+        }
+        const entry = await (name === "append_note" ? node.appendNote(text, step) : node.appendOutcome(text, step));
+        return { step, logPath: node.locateLog(entry).relative };
+      }
+      case "complete_step": {
+        if (args.force !== undefined && !this.options.allowForce) {
+          throw new McpToolError("invalid-arguments", "force is not enabled for this server (worktree mcp --allow-force)");
+        }
+        const step = this.activeStep();
+        const node = await this.loadNode(true);
+        if (node.getNextActionableStep()?.step !== step) {
+          throw new McpToolError("node-inconsistent", `step ${step} is no longer the in-progress step in STATE.md`);
+        }
+        const result = await this.runStep(true, args.force === true);
+        this.finished = true;
+        return { step: result.node.state.findById(step), logPath: result.logPath, completed: true };
+      }
+      case "audit": {
+        const layout = await this.layout();
+        const since = optionalText(args, "since");
+        const results = since
+          ? await auditWorkNodesSince(layout.root, since, this.storage)
+          : await auditWorkNodes(layout.root, this.storage);
+        return buildAuditJsonReport(results, { root: layout.root, toolVersion: this.options.toolVersion ?? "" });
+      }
+      default:
+        throw new McpToolError("unknown-tool", `unknown tool '${name}'`);
+    }
+  }
+
+  private async runStep(complete: boolean, force = false) {
+    try {
+      return await runWorkNodeStep(this.root, {
+        command: "mcp",
+        owner: this.owner,
+        session: this.session,
+        ttlSeconds: this.options.ttlSeconds,
+        complete,
+        force,
+        storage: this.storage
+      });
+    } catch (error) {
+      if (error instanceof RunStepError) {
+        throw new McpToolError(error.code === "invalid-node" ? "node-inconsistent" : error.code, error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async listResources(): Promise<Array<{ uri: string; name: string; mimeType: string }>> {
+    const resources: Array<{ uri: string; name: string; mimeType: string }> = [];
+    if (findWorkProtocol(this.root)) {
+      resources.push({ uri: PROTOCOL_URI, name: "WORK_PROTOCOL.md", mimeType: "text/markdown" });
+    }
+    const layout = await this.layout().catch(() => null);
+    if (!layout) {
+      return resources;
+    }
+    resources.push(
+      { uri: `${NODE_URI_PREFIX}PLAN.md`, name: "PLAN.md", mimeType: "text/markdown" },
+      { uri: `${NODE_URI_PREFIX}STATE.md`, name: "STATE.md", mimeType: "text/markdown" }
+    );
+    const logs = (await this.storage.readDir(layout.logsDir))
+      .filter((entry) => entry.kind === "file" && entry.name.endsWith(".md"))
+      .map((entry) => entry.name);
+    for (const name of logs.sort()) {
+      resources.push({ uri: `${NODE_URI_PREFIX}logs/${name}`, name: `logs/${name}`, mimeType: "text/markdown" });
+    }
+    return resources;
+  }
+
+  private async readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    let text: string | null = null;
+    if (uri === PROTOCOL_URI) {
+      // WORK_PROTOCOL.md sits above the node or ships with the package, so it is found on disk.
+      const protocolPath = findWorkProtocol(this.root);
+      text = protocolPath ? await fs.readFile(protocolPath, "utf8").catch(() => null) : null;
+    } else if (uri.startsWith(NODE_URI_PREFIX)) {
+      const relative = uri.slice(NODE_URI_PREFIX.length);
+      if (relative === "PLAN.md" || relative === "STATE.md" || /^logs\/[^/]+\.md$/.test(relative)) {
+        text = await this.storage.readFile(path.join(path.resolve(this.root), relative)).catch(() => null);
+      }
+    }
+    if (text === null) {
+      throw new McpRequestError(-32002, `Resource not found: ${uri}`);
+    }
+    return { uri, mimeType: "text/markdown", text };
+  }
+}
+
+/**
+ * Runs an MCP session over newline-delimited JSON-RPC on the given streams (stdin/stdout
+ * by default) until the input ends. Requests are handled one at a time, in order.
+ */
+export async function serveMcpStdio(
+  root: string,
+  options: McpSessionOptions & { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {}
+): Promise<void> {
+  const session = new McpSession(root, options);
+  const output = options.output ?? process.stdout;
+  const lines = readline.createInterface({ input: options.input ?? process.stdin, crlfDelay: Infinity });
+  const send = (response: JsonRpcResponse): void => {
+    output.write(`${JSON.stringify(response)}\n`);
+  };
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+      continue;
+    }
+    let response: JsonRpcResponse | null;
+    try {
+      response = await session.handleMessage(message);
+    } catch (error) {
+      // A failure outside the dispatcher must not end the session; notifications get no reply.
+      const id = isJsonObject(message) ? message.id : undefined;
+      response =
+        id === undefined
+          ? null
+          : {
+              jsonrpc: "2.0",
+              id: typeof id === "string" || typeof id === "number" ? id : null,
+              error: { code: -32603, message: (error as Error).message }
+            };
+    }
+    if (response) {
+      send(response);
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import path from "node:path";
+import { formatNoteTimestamp } from "./step-log.js";
+import { fileSystemStorage } from "./storage.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { WorkNodeLayout } from "./work-node.js";
+
+export const MIGRATIONS_FILENAME = "MIGRATIONS.md";
+
+export interface RenumberMigration {
+  kind: "renumber";
+  timestamp: string;
+  from: string;
+  to: string;
+  reason?: string;
+  /** The entry line as written in MIGRATIONS.md. */
+  raw: string;
+}
+
+export interface RelabelMigration {
+  kind: "relabel";
+  timestamp: string;
+  step: string;
+  from: string;
+  to: string;
+  reason?: string;
+  raw: string;
+}
+
+export type MigrationEntry = RenumberMigration | RelabelMigration;
+
+export type MigrationRecord = Omit<RenumberMigration, "raw" | "timestamp"> | Omit<RelabelMigration, "raw" | "timestamp">;
+
+const MIGRATIONS_HEADER = [
+  "# WorkNode Migrations",
+  "",
+  "Documented maintenance changes to step identifiers and labels (WORK_PROTOCOL §4).",
+  "Entries are appended by `worktree migrate` and must not be edited or removed.",
+  ""
+];
+
+const QUOTED = String.raw`"(?:[^"\\]|\\.)*"`;
+const RENUMBER_LINE_REGEX = new RegExp(
+  String.raw`^-\s+(\S+)\s+renumber\s+([0-9]+(?:\.[0-9]+)*)\s+→\s+([0-9]+(?:\.[0-9]+)*)(?::\s+(.*))?$`
+);
+const RELABEL_LINE_REGEX = new RegExp(
+  String.raw`^-\s+(\S+)\s+relabel\s+([0-9]+(?:\.[0-9]+)*)\s+(${QUOTED})\s+→\s+(${QUOTED})(?::\s+(.*))?$`
+);
+
+export function migrationsPath(layout: WorkNodeLayout): string {
+  return path.join(layout.root, MIGRATIONS_FILENAME);
+}
+
+export function parseMigrations(contents: string): MigrationEntry[] {
+  const entries: MigrationEntry[] = [];
+  for (const raw of contents.split(/\r?\n/)) {
+    const line = raw.trim();
+    const renumber = RENUMBER_LINE_REGEX.exec(line);
+    if (renumber) {
+      entries.push({ kind: "renumber", timestamp: renumber[1], from: renumber[2], to: renumber[3], reason: renumber[4], raw: line });
+      continue;
+    }
+    const relabel = RELABEL_LINE_REGEX.exec(line);
+    if (relabel) {
+      entries.push({
+        kind: "relabel",
+        timestamp: relabel[1],
+        step: relabel[2],
+        from: JSON.parse(relabel[3]) as string,
+        to: JSON.parse(relabel[4]) as string,
+        reason: relabel[5],
+        raw: line
+      });
+    }
+  }
+  return entries;
+}
+
+export function formatMigrationEntry(entry: MigrationRecord & { timestamp: string }): string {
+  const reason = entry.reason ? `: ${entry.reason}` : "";
+  if (entry.kind === "renumber") {
+    return `- ${entry.timestamp} renumber ${entry.from} → ${entry.to}${reason}`;
+  }
+  return `- ${entry.timestamp} relabel ${entry.step} ${JSON.stringify(entry.from)} → ${JSON.stringify(entry.to)}${reason}`;
+}
+
+export async function readMigrations(
+  layout: WorkNodeLayout,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<MigrationEntry[]> {
+  try {
+    return parseMigrations(await storage.readFile(migrationsPath(layout)));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/** Appends an entry to `NODE_ROOT/MIGRATIONS.md`, creating the file on first use. */
+export async function recordMigration(
+  layout: WorkNodeLayout,
+  entry: MigrationRecord,
+  timestamp: Date = new Date(),
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<MigrationEntry> {
+  const filePath = migrationsPath(layout);
+  const line = formatMigrationEntry({ ...entry, timestamp: formatNoteTimestamp(timestamp) });
+  let existing: string;
+  try {
+    existing = await storage.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    existing = `${MIGRATIONS_HEADER.join("\n")}\n`;
+  }
+  const separator = existing.length && !existing.endsWith("\n") ? "\n" : "";
+  await storage.writeFile(filePath, `${existing}${separator}${line}\n`);
+  return parseMigrations(line)[0];
+}
@@ -0,0 +1,71 @@
+import path from "node:path";
+import { fileSystemStorage } from "./storage.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { AuditSeverity, WorkNodeLayout } from "./work-node.js";
+
+export const CONFIG_FILENAME = ".worktree.json";
+
+/** `"off"` disables a rule for the node; a severity overrides the rule's default. */
+export type AuditRuleSetting = AuditSeverity | "off";
+
+export interface WorkNodeConfig {
+  rules: Record<string, AuditRuleSetting>;
+  /** Node-relative path of the template `worktree prompt` renders. */
+  promptTemplate?: string;
+}
+
+const RULE_SETTINGS: Set<string> = new Set(["error", "warning", "off"]);
+
+export function configPath(layout: WorkNodeLayout): string {
+  return path.join(layout.root, CONFIG_FILENAME);
+}
+
+function parseConfig(contents: string, filePath: string): WorkNodeConfig {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(contents);
+  } catch {
+    throw new Error(`config file ${filePath} is not valid JSON`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`config file ${filePath} must contain a JSON object`);
+  }
+  const rules = (parsed as { rules?: unknown }).rules ?? {};
+  if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+    throw new Error(`config file ${filePath} has a 'rules' entry that is not an object`);
+  }
+  const config: WorkNodeConfig = { rules: {} };
+  for (const [ruleId, setting] of Object.entries(rules)) {
+    const normalized = setting === false ? "off" : setting === true ? "error" : setting;
+    if (typeof normalized !== "string" || !RULE_SETTINGS.has(normalized)) {
+      throw new Error(`config file ${filePath} sets rule '${ruleId}' to ${JSON.stringify(setting)} (expected "error", "warning", or "off")`);
+    }
+    config.rules[ruleId] = normalized as AuditRuleSetting;
+  }
+  const promptTemplate = (parsed as { promptTemplate?: unknown }).promptTemplate;
+  if (promptTemplate !== undefined) {
+    if (typeof promptTemplate !== "string" || !promptTemplate.trim()) {
+      throw new Error(`config file ${filePath} has a 'promptTemplate' entry that is not a file path`);
+    }
+    config.promptTemplate = promptTemplate;
+  }
+  return config;
+}
+
+/** Reads `NODE_ROOT/.worktree.json`; nodes without one use the default rule set. */
+export async function readWorkNodeConfig(
+  layout: WorkNodeLayout,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeConfig> {
+  const filePath = configPath(layout);
+  let contents: string;
+  try {
+    contents = await storage.readFile(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { rules: {} };
+    }
+    throw error;
+  }
+  return parseConfig(contents, filePath);
+}
@@ -0,0 +1,223 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { findWorkProtocol } from "./mcp.js";
+import { readWorkNodeConfig } from "./node-config.js";
+import { WorkNode, canonicalLogPaths, validateWorkNodeLayout } from "./work-node.js";
+import type { PlanStep, StateRow } from "./work-node.js";
+
+/** Sections a token budget may shorten, lowest priority (trimmed first) to highest. */
+export const TRIMMABLE_PROMPT_SECTIONS = ["siblings", "plan", "protocol", "log"] as const;
+
+export type TrimmablePromptSection = (typeof TRIMMABLE_PROMPT_SECTIONS)[number];
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are the implementer for one run of the Work Protocol.
+
+NODE_ROOT = {{node_root}}
+Execute exactly one step: Phase {{phase}} Step {{step}} – {{label}}
+
+## Step details
+
+{{details}}
+
+## Completion instructions
+
+{{instructions}}
+
+## Work Protocol (excerpt)
+
+{{protocol}}
+
+## Current log ({{log_path}})
+
+{{log}}
+
+## PLAN context
+
+{{plan}}
+
+## Other steps
+
+{{siblings}}
+`;
+
+/** WORK_PROTOCOL sections included in the prompt, most important first. */
+const PROTOCOL_SECTIONS = ["6", "5", "2.3"];
+const CHARS_PER_TOKEN = 4;
+const PLACEHOLDER_REGEX = /\{\{\s*([a-z_]+)\s*\}\}/g;
+const OMITTED = "(omitted to fit the token budget)";
+const TRUNCATED = "\n[… trimmed to fit the token budget]";
+
+export interface StepPromptOptions {
+  /** Template file; defaults to `promptTemplate` in `.worktree.json`, then the built-in template. */
+  templatePath?: string;
+  /** Upper bound on the estimated prompt size; trimmable sections are shortened to meet it. */
+  maxTokens?: number;
+}
+
+export interface StepPrompt {
+  step: StateRow;
+  text: string;
+  /** Estimated size of `text` (about four characters per token). */
+  tokens: number;
+  trimmed: TrimmablePromptSection[];
+  /** True when the prompt still exceeds `maxTokens` after every section was trimmed. */
+  overBudget: boolean;
+}
+
+export function estimatePromptTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Returns the given numbered sections (`# 6.`, `## 2.3`) of a protocol document, in order. */
+export function extractProtocolSections(markdown: string, sectionIds: string[]): string {
+  const lines = markdown.split(/\r?\n/);
+  const headingAt = (line: string): { level: number; id: string } | null => {
+    const match = /^(#+)\s+(\d+(?:\.\d+)*)\.?\s/.exec(line);
+    return match ? { level: match[1].length, id: match[2] } : null;
+  };
+  const sections: string[] = [];
+  for (const id of sectionIds) {
+    const start = lines.findIndex((line) => headingAt(line)?.id === id);
+    if (start === -1) {
+      continue;
+    }
+    const level = headingAt(lines[start])!.level;
+    let end = start + 1;
+    while (end < lines.length) {
+      const heading = headingAt(lines[end]);
+      if ((heading && heading.level <= level) || (level === 1 && /^#\s/.test(lines[end])) || lines[end].trim() === "---") {
+        break;
+      }
+      end += 1;
+    }
+    sections.push(lines.slice(start, end).join("\n").trim());
+  }
+  return sections.join("\n\n");
+}
+
+/** The PLAN.md section of a phase, or its steps rendered in PLAN syntax when PLAN has no phase headings. */
+function extractPlanPhase(planContents: string, phase: number, steps: PlanStep[]): string {
+  const lines = planContents.split(/\r?\n/);
+  const start = lines.findIndex((line) => new RegExp(`^#{1,6}\\s+Phase\\s+${phase}\\b`, "i").test(line));
+  if (start !== -1) {
+    let end = start + 1;
+    while (end < lines.length && !/^#{1,2}\s/.test(lines[end]) && lines[end].trim() !== "---") {
+      end += 1;
+    }
+    return lines.slice(start, end).join("\n").trim();
+  }
+  return steps
+    .filter((step) => step.phase === phase)
+    .map((step) => [`- Step ${step.step}: ${step.label}`, ...(step.details ?? []).map((detail) => `  - ${detail}`)].join("\n"))
+    .join("\n\n");
+}
+
+function formatSiblings(rows: StateRow[], current: StateRow, plan: PlanStep[]): string {
+  const dependencies = new Set(plan.find((step) => step.step === current.step)?.dependsOn ?? []);
+  const lines = rows
+    .filter((row) => row.step !== current.step)
+    .map((row) => `- ${row.step} ${row.label}: ${row.status}${dependencies.has(row.step) ? " (dependency)" : ""}`);
+  return lines.length ? lines.join("\n") : "(no other steps)";
+}
+
+function completionInstructions(node: WorkNode, step: StateRow, logPath: string): string {
+  const root = node.layout.root;
+  return [
+    `1. Work only on step ${step.step}. Do not start another step in this run (WORK_PROTOCOL §6).`,
+    `2. After each atomic action, append a note: \`worktree note "<text>" --node ${root}\`.`,
+    `3. When the work is finished, tick every checklist item under \`## Plan\` in ${logPath}.`,
+    `4. Record each outcome: \`worktree outcome "<text>" --node ${root}\`.`,
+    `5. Mark the step done: \`worktree run ${root} --complete\`. It refuses while checklist items are unchecked or \`## Outcomes\` is empty.`,
+    `6. If the step cannot be finished, run \`worktree block ${step.step} --reason "<why>" --node ${root}\` instead.`
+  ].join("\n");
+}
+
+function trimToTokens(text: string, excessTokens: number): string {
+  const keep = text.length - excessTokens * CHARS_PER_TOKEN - TRUNCATED.length;
+  if (keep <= 0) {
+    return OMITTED;
+  }
+  const cut = text.lastIndexOf("\n", keep);
+  return `${text.slice(0, cut > 0 ? cut : keep).trimEnd()}${TRUNCATED}`;
+}
+
+function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_REGEX, (_, name: string) => values[name]);
+}
+
+/**
+ * Builds the work order for the next actionable step of a node (the text a runner gives an
+ * implementer, WORK_PROTOCOL §8): protocol excerpts, PLAN context, the current log,
+ * the status of the other steps, and completion instructions. Nothing is written.
+ */
+export async function renderStepPrompt(root: string, options: StepPromptOptions = {}): Promise<StepPrompt> {
+  const layout = await validateWorkNodeLayout(root);
+  const node = await WorkNode.loadFromLayout(layout);
+  const step = node.getNextActionableStep();
+  if (!step) {
+    throw new Error(`No actionable steps remain under ${layout.root}.`);
+  }
+  const planStep = node.plan.find(step.phase, step.step);
+
+  let templatePath = options.templatePath;
+  if (!templatePath) {
+    const config = await readWorkNodeConfig(layout);
+    templatePath = config.promptTemplate ? path.resolve(layout.root, config.promptTemplate) : undefined;
+  }
+  const template = templatePath ? await fs.readFile(templatePath, "utf8") : DEFAULT_PROMPT_TEMPLATE;
+
+  const log = canonicalLogPaths(layout, step);
+  const logContents = await fs.readFile(log.absolute, "utf8").catch(() => null);
+  const protocolPath = findWorkProtocol(layout.root);
+  const protocol = protocolPath
+    ? extractProtocolSections(await fs.readFile(protocolPath, "utf8"), PROTOCOL_SECTIONS)
+    : "(WORK_PROTOCOL.md not found)";
+  const details = planStep?.details?.length ? planStep.details.map((detail) => `- ${detail}`).join("\n") : "(none)";
+
+  const values: Record<string, string> = {
+    node_root: layout.root,
+    phase: String(step.phase),
+    step: step.step,
+    label: step.label,
+    status: step.status,
+    details,
+    instructions: completionInstructions(node, step, log.relative),
+    log_path: log.relative,
+    log: logContents?.trim() || "(no log yet; `worktree run` creates it from the PLAN details)",
+    protocol,
+    plan: extractPlanPhase(await fs.readFile(layout.planPath, "utf8"), step.phase, node.plan.steps),
+    siblings: formatSiblings(node.state.entries, step, node.plan.steps)
+  };
+  const placeholders = new Set([...template.matchAll(PLACEHOLDER_REGEX)].map((match) => match[1]));
+  for (const name of placeholders) {
+    if (!(name in values)) {
+      throw new Error(`template ${templatePath} uses unknown placeholder {{${name}}}`);
+    }
+  }
+
+  let text = renderTemplate(template, values);
+  const trimmed: TrimmablePromptSection[] = [];
+  if (options.maxTokens !== undefined) {
+    for (const section of TRIMMABLE_PROMPT_SECTIONS) {
+      const excess = estimatePromptTokens(text) - options.maxTokens;
+      if (excess <= 0) {
+        break;
+      }
+      if (!placeholders.has(section) || values[section] === OMITTED) {
+        continue;
+      }
+      values[section] = trimToTokens(values[section], excess);
+      trimmed.push(section);
+      text = renderTemplate(template, values);
+    }
+  }
+
+  const tokens = estimatePromptTokens(text);
+  return {
+    step,
+    text,
+    tokens,
+    trimmed,
+    overBudget: options.maxTokens !== undefined && tokens > options.maxTokens
+  };
+}
@@ -0,0 +1,341 @@
+import path from "node:path";
+import { fileSystemStorage } from "./storage.js";
+import { STEP_STATUSES, WorkNode, compareStepIdentifiers, discoverWorkNodes } from "./work-node.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { StateRow, StepStatus } from "./work-node.js";
+
+export const PROGRESS_REPORT_FORMATS = ["text", "json", "csv"] as const;
+
+export type ProgressReportFormat = (typeof PROGRESS_REPORT_FORMATS)[number];
+
+export const DEFAULT_THROUGHPUT_WINDOW_DAYS = 7;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface ProgressReportOptions {
+  /** Throughput counts steps completed within this many days before `now`. */
+  windowDays?: number;
+  now?: Date;
+  storage?: WorkNodeStorage;
+}
+
+export interface StepTiming {
+  phase: number;
+  step: string;
+  label: string;
+  status: StepStatus;
+  started: string | null;
+  completed: string | null;
+  /** `completed - started` of a done step. */
+  cycleHours: number | null;
+  /** Time since `started` of an in-progress or blocked step. */
+  openHours: number | null;
+}
+
+export interface BurndownPoint {
+  /** UTC day, `YYYY-MM-DD`. */
+  date: string;
+  /** Steps still `todo` at the end of that day. */
+  remaining: number;
+}
+
+export interface ProgressMetrics {
+  steps: number;
+  counts: Record<StepStatus, number>;
+  completedInWindow: number;
+  cycleTimeHours: { median: number | null; p90: number | null };
+  /** In-progress and blocked steps, longest open first. */
+  open: StepTiming[];
+  /** Days on which the number of `todo` steps changed, ending with today. */
+  burndown: BurndownPoint[];
+}
+
+export interface PhaseProgress extends ProgressMetrics {
+  phase: number;
+}
+
+export interface NodeProgress extends ProgressMetrics {
+  /** Path relative to the report root, `.` for the root itself. */
+  node: string;
+  root: string;
+  error: string | null;
+  phases: PhaseProgress[];
+}
+
+export interface ProgressReport {
+  version: 1;
+  generatedAt: string;
+  windowDays: number;
+  nodes: NodeProgress[];
+}
+
+function parseTimestamp(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function roundHours(ms: number): number {
+  return Math.round((ms / HOUR_MS) * 10) / 10;
+}
+
+/** Nearest-rank percentile of an ascending list. */
+function percentile(sorted: number[], fraction: number): number | null {
+  if (!sorted.length) {
+    return null;
+  }
+  return sorted[Math.max(0, Math.ceil(fraction * sorted.length) - 1)];
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * A step counts as `todo` until its log was started. Steps that left `todo` without a
+ * readable `started:` header are left out, since nobody knows when they did.
+ */
+function buildBurndown(timings: StepTiming[], now: number): BurndownPoint[] {
+  const starts: number[] = [];
+  let neverStarted = 0;
+  for (const timing of timings) {
+    const started = parseTimestamp(timing.started ?? undefined);
+    if (started !== null) {
+      starts.push(started);
+    } else if (timing.status === "todo") {
+      neverStarted += 1;
+    }
+  }
+  if (!starts.length) {
+    return [{ date: utcDay(now), remaining: neverStarted }];
+  }
+  starts.sort((a, b) => a - b);
+  const points: BurndownPoint[] = [];
+  for (let day = Date.parse(utcDay(starts[0])); day <= now; day += DAY_MS) {
+    const endOfDay = day + DAY_MS;
+    const remaining = neverStarted + starts.filter((start) => start >= endOfDay).length;
+    const date = utcDay(day);
+    if (!points.length || points[points.length - 1].remaining !== remaining) {
+      points.push({ date, remaining });
+    }
+  }
+  const today = utcDay(now);
+  if (points[points.length - 1].date !== today) {
+    points.push({ date: today, remaining: points[points.length - 1].remaining });
+  }
+  return points;
+}
+
+function computeMetrics(timings: StepTiming[], now: number, windowDays: number): ProgressMetrics {
+  const counts = Object.fromEntries(STEP_STATUSES.map((status) => [status, 0])) as Record<StepStatus, number>;
+  timings.forEach((timing) => (counts[timing.status] += 1));
+  const windowStart = now - windowDays * DAY_MS;
+  const cycles = timings
+    .filter((timing) => timing.cycleHours !== null)
+    .map((timing) => timing.cycleHours!)
+    .sort((a, b) => a - b);
+  return {
+    steps: timings.length,
+    counts,
+    completedInWindow: timings.filter((timing) => {
+      const completed = parseTimestamp(timing.completed ?? undefined);
+      return timing.status === "done" && completed !== null && completed >= windowStart && completed <= now;
+    }).length,
+    cycleTimeHours: { median: percentile(cycles, 0.5), p90: percentile(cycles, 0.9) },
+    open: timings
+      .filter((timing) => timing.openHours !== null)
+      .sort((a, b) => b.openHours! - a.openHours!),
+    burndown: buildBurndown(timings, now)
+  };
+}
+
+function timeStep(node: WorkNode, row: StateRow, now: number): StepTiming {
+  const log = node.logs.find((candidate) => candidate.phase === row.phase && candidate.step === row.step);
+  const started = parseTimestamp(log?.started);
+  const completed = parseTimestamp(log?.completed);
+  const open = row.status === "in-progress" || row.status === "blocked";
+  return {
+    phase: row.phase,
+    step: row.step,
+    label: row.label,
+    status: row.status,
+    started: log?.started || null,
+    completed: log?.completed || null,
+    cycleHours: row.status === "done" && started !== null && completed !== null ? roundHours(completed - started) : null,
+    openHours: open && started !== null ? roundHours(now - started) : null
+  };
+}
+
+/**
+ * Computes progress metrics for every WorkNode under `root`, per node and per phase, from
+ * STATE.md and the `started:`/`completed:` headers of the step logs. Nodes that fail to
+ * load are reported with their error instead of metrics.
+ */
+export async function buildProgressReport(root: string, options: ProgressReportOptions = {}): Promise<ProgressReport> {
+  const storage = options.storage ?? fileSystemStorage;
+  const reportRoot = path.resolve(root);
+  const now = (options.now ?? new Date()).getTime();
+  const windowDays = options.windowDays ?? DEFAULT_THROUGHPUT_WINDOW_DAYS;
+  const nodes: NodeProgress[] = [];
+
+  for (const layout of await discoverWorkNodes(reportRoot, storage)) {
+    const id = path.relative(reportRoot, layout.root).split(path.sep).join("/") || ".";
+    let node: WorkNode;
+    try {
+      node = await WorkNode.loadFromLayout(layout, storage);
+    } catch (error) {
+      nodes.push({ node: id, root: layout.root, error: (error as Error).message, phases: [], ...computeMetrics([], now, windowDays) });
+      continue;
+    }
+    const timings = [...node.state.entries].sort(compareStepIdentifiers).map((row) => timeStep(node, row, now));
+    const phases = [...new Set(timings.map((timing) => timing.phase))].map((phase) => ({
+      phase,
+      ...computeMetrics(
+        timings.filter((timing) => timing.phase === phase),
+        now,
+        windowDays
+      )
+    }));
+    nodes.push({ node: id, root: layout.root, error: null, phases, ...computeMetrics(timings, now, windowDays) });
+  }
+
+  return { version: 1, generatedAt: new Date(now).toISOString(), windowDays, nodes };
+}
+
+function formatHours(hours: number | null): string {
+  if (hours === null) {
+    return "-";
+  }
+  return hours >= 48 ? `${(hours / 24).toFixed(1)}d` : `${hours.toFixed(1)}h`;
+}
+
+function formatBurndown(points: BurndownPoint[]): string {
+  return points.map((point) => `${point.date}:${point.remaining}`).join(" ");
+}
+
+function padTable(rows: string[][]): string[] {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd());
+}
+
+function metricCells(metrics: ProgressMetrics): string[] {
+  return [
+    String(metrics.steps),
+    String(metrics.counts.todo),
+    String(metrics.counts["in-progress"]),
+    String(metrics.counts.blocked),
+    String(metrics.counts.done),
+    String(metrics.completedInWindow),
+    formatHours(metrics.cycleTimeHours.median),
+    formatHours(metrics.cycleTimeHours.p90),
+    formatHours(metrics.open[0]?.openHours ?? null)
+  ];
+}
+
+export function formatProgressText(report: ProgressReport): string {
+  if (!report.nodes.length) {
+    return "No WorkNodes found.";
+  }
+  const rows = [
+    [
+      "Node",
+      "Phase",
+      "Steps",
+      "Todo",
+      "Active",
+      "Blocked",
+      "Done",
+      `Done/${report.windowDays}d`,
+      "Cycle p50",
+      "Cycle p90",
+      "Oldest open"
+    ]
+  ];
+  for (const node of report.nodes) {
+    if (node.error) {
+      rows.push([node.node, "-", `error: ${node.error}`, "", "", "", "", "", "", "", ""]);
+      continue;
+    }
+    rows.push([node.node, "all", ...metricCells(node)]);
+    for (const phase of node.phases) {
+      rows.push(["", String(phase.phase), ...metricCells(phase)]);
+    }
+  }
+  const lines = padTable(rows);
+
+  const open = report.nodes.flatMap((node) => node.open.map((timing) => ({ node: node.node, timing })));
+  if (open.length) {
+    lines.push("", "Open steps:");
+    open
+      .sort((a, b) => b.timing.openHours! - a.timing.openHours!)
+      .forEach(({ node, timing }) =>
+        lines.push(`  ${node} ${timing.step} ${timing.label}: ${timing.status} for ${formatHours(timing.openHours)}`)
+      );
+  }
+
+  lines.push("", "Burndown (todo steps remaining):");
+  for (const node of report.nodes.filter((candidate) => !candidate.error)) {
+    lines.push(`  ${node.node}: ${formatBurndown(node.burndown)}`);
+  }
+  return lines.join("\n");
+}
+
+export function formatProgressJson(report: ProgressReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function csvCell(value: string | number | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per node and per phase (empty `phase` for the node total). */
+export function formatProgressCsv(report: ProgressReport): string {
+  const header = [
+    "node",
+    "phase",
+    "steps",
+    ...STEP_STATUSES,
+    "completed_in_window",
+    "cycle_median_hours",
+    "cycle_p90_hours",
+    "oldest_open_hours",
+    "burndown",
+    "error"
+  ];
+  const row = (node: NodeProgress, phase: number | null, metrics: ProgressMetrics): string =>
+    [
+      node.node,
+      phase,
+      metrics.steps,
+      ...STEP_STATUSES.map((status) => metrics.counts[status]),
+      metrics.completedInWindow,
+      metrics.cycleTimeHours.median,
+      metrics.cycleTimeHours.p90,
+      metrics.open[0]?.openHours ?? null,
+      formatBurndown(metrics.burndown),
+      node.error
+    ]
+      .map(csvCell)
+      .join(",");
+  const lines = [header.join(",")];
+  for (const node of report.nodes) {
+    lines.push(row(node, null, node));
+    node.phases.forEach((phase) => lines.push(row(node, phase.phase, phase)));
+  }
+  return lines.join("\n");
+}
+
+export function formatProgressReport(format: ProgressReportFormat, report: ProgressReport): string {
+  switch (format) {
+    case "text":
+      return formatProgressText(report);
+    case "json":
+      return formatProgressJson(report);
+    case "csv":
+      return formatProgressCsv(report);
+  }
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { readWorkNodeLock } from "./lock.js";
+import { RunStepError, runWorkNodeStep } from "./runner.js";
+import { MemoryStorage } from "./storage.js";
+import { WorkNode, collectWorkNodeFindings } from "./work-node.js";
+
+const ROOT = "/tree/api";
+const LOG = `${ROOT}/logs/p1-s1.1.md`;
+const STEPS = [
+  { phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] },
+  { phase: 1, step: "1.2", label: "Write the printer", details: ["Print the output."] }
+];
+
+/** Starts step 1.1 and returns the storage and lease session of the run. */
+async function startStep(): Promise<{ storage: MemoryStorage; session: string }> {
+  const storage = new MemoryStorage();
+  await WorkNode.initialize(ROOT, STEPS, storage);
+  const { session } = await runWorkNodeStep(ROOT, { owner: "agent", storage });
+  return { storage, session };
+}
+
+async function finishLog(storage: MemoryStorage): Promise<void> {
+  const log = await storage.readFile(LOG);
+  const finished = log.replace("- [ ] Parse the input.", "- [x] Parse the input.");
+  await storage.writeFile(LOG, finished.replace("## Outcomes\n", "## Outcomes\n- Parses the input.\n"));
+}
+
+test("run --complete refuses a log with unchecked items and no outcomes", async () => {
+  const { storage, session } = await startStep();
+
+  await assert.rejects(runWorkNodeStep(ROOT, { owner: "agent", session, complete: true, storage }), (error) => {
+    assert.ok(error instanceof RunStepError);
+    assert.equal(error.code, "step-incomplete");
+    assert.match(error.message, /unchecked plan item: Parse the input\./);
+    assert.match(error.message, /## Outcomes is empty/);
+    return true;
+  });
+  const node = await WorkNode.load(ROOT, storage);
+  assert.equal(node.state.findById("1.1")?.status, "in-progress");
+});
+
+test("run --complete marks a finished step done and releases the lease", async () => {
+  const { storage, session } = await startStep();
+  await finishLog(storage);
+
+  const result = await runWorkNodeStep(ROOT, { owner: "agent", session, complete: true, storage });
+  assert.equal(result.completed, true);
+  assert.equal(result.node.state.findById("1.1")?.status, "done");
+  assert.match(await storage.readFile(LOG), /^completed: /m);
+  assert.equal(await readWorkNodeLock(result.node.layout, storage), null);
+});
+
+test("run --complete --force completes anyway and records the override", async () => {
+  const { storage, session } = await startStep();
+
+  const result = await runWorkNodeStep(ROOT, { owner: "agent", session, complete: true, force: true, storage });
+  assert.equal(result.node.state.findById("1.1")?.status, "done");
+  assert.match(await storage.readFile(LOG), /Completion forced with --force despite: unchecked plan item/);
+});
+
+test("a refused run --complete leaves the step todo and takes no lease", async () => {
+  const storage = new MemoryStorage();
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+
+  await assert.rejects(runWorkNodeStep(ROOT, { owner: "agent", complete: true, storage }), /unchecked plan item/);
+  assert.equal((await WorkNode.load(ROOT, storage)).state.findById("1.1")?.status, "todo");
+  assert.equal(storage.snapshot()[LOG], undefined);
+  assert.equal(await readWorkNodeLock(node.layout, storage), null);
+});
+
+test("blocking the leased step releases the lease", async () => {
+  const { storage, session } = await startStep();
+  const node = await WorkNode.load(ROOT, storage);
+  node.lockOwner = "agent";
+  node.lockSession = session;
+
+  await node.transitionStep("1.1", "blocked", { reason: "waiting on review" });
+  assert.equal(await readWorkNodeLock(node.layout, storage), null);
+  assert.equal((await collectWorkNodeFindings(ROOT, storage)).some((finding) => finding.ruleId === "orphaned-lock"), false);
+});
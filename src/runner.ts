@@ -0,0 +1,140 @@
+import {
+  acquireWorkNodeLock,
+  defaultLockOwner,
+  defaultLockSession,
+  isLockHeldBy,
+  isLockStale,
+  readWorkNodeLock,
+  releaseWorkNodeLock
+} from "./lock.js";
+import { recoverWorkNodeTransaction } from "./transaction.js";
+import { StepCompletionError, WorkNode, validateWorkNodeLayout } from "./work-node.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { LogPaths, PlanStep, StateRow, WorkNodeLayout } from "./work-node.js";
+
+export type RunStepErrorCode =
+  | "invalid-node"
+  | "node-inconsistent"
+  | "no-actionable-step"
+  | "node-locked"
+  | "step-incomplete";
+
+/** Error raised by `runWorkNodeStep`; `code` tells callers which stage refused the run. */
+export class RunStepError extends Error {
+  readonly code: RunStepErrorCode;
+
+  constructor(code: RunStepErrorCode, message: string) {
+    super(message);
+    this.name = "RunStepError";
+    this.code = code;
+  }
+}
+
+export interface RunStepOptions {
+  owner?: string;
+  /** Lease session to continue (default `WORKTREE_SESSION`); a new one is started otherwise. */
+  session?: string;
+  /** Recorded as the `command` of the journal events of the run (default `run`). */
+  command?: string;
+  ttlSeconds?: number;
+  /** Mark the step done after starting it (`worktree run --complete`). */
+  complete?: boolean;
+  /** Complete even if the log does not satisfy the completion rules; recorded in Notes. */
+  force?: boolean;
+  storage?: WorkNodeStorage;
+}
+
+export interface RunStepResult {
+  node: WorkNode;
+  step: StateRow;
+  planStep: PlanStep;
+  /** Node-relative path of the step log. */
+  logPath: string;
+  completed: boolean;
+  /** Lease session of the run; later calls for the same step must pass it. */
+  session: string;
+}
+
+/**
+ * Executes one `worktree run`: takes the node lease, starts the next actionable step
+ * (creating its log), and with `complete` marks it done and releases the lease. Starting
+ * and completing are committed as one transaction, so a refused completion leaves the
+ * step as it was and gives back a lease this call took.
+ */
+export async function runWorkNodeStep(root: string, options: RunStepOptions = {}): Promise<RunStepResult> {
+  const owner = options.owner ?? defaultLockOwner();
+  let layout: WorkNodeLayout;
+  try {
+    layout = await validateWorkNodeLayout(root, options.storage);
+  } catch (error) {
+    throw new RunStepError("invalid-node", (error as Error).message);
+  }
+
+  let node: WorkNode;
+  try {
+    await recoverWorkNodeTransaction(layout, options.storage);
+    node = await WorkNode.loadFromLayout(layout, options.storage);
+  } catch (error) {
+    throw new RunStepError("node-inconsistent", (error as Error).message);
+  }
+  const actionable = node.getNextActionableStep();
+  if (!actionable) {
+    throw new RunStepError("no-actionable-step", `No actionable steps remain under ${layout.root}.`);
+  }
+
+  const planStep = node.plan.find(actionable.phase, actionable.step);
+  if (!planStep) {
+    throw new RunStepError("node-inconsistent", `Plan step ${actionable.phase}.${actionable.step} not found in PLAN.md`);
+  }
+
+  let session: string;
+  let leaseTaken: boolean;
+  try {
+    const requested = options.session ?? defaultLockSession();
+    const existing = await readWorkNodeLock(layout, options.storage).catch(() => null);
+    leaseTaken = !existing || isLockStale(existing) || !isLockHeldBy(existing, owner, requested);
+    session = (
+      await acquireWorkNodeLock(layout, {
+        owner,
+        session: requested,
+        ttlSeconds: options.ttlSeconds,
+        storage: options.storage
+      })
+    ).session;
+  } catch (error) {
+    throw new RunStepError("node-locked", (error as Error).message);
+  }
+  node.lockOwner = owner;
+  node.lockSession = session;
+  node.command = options.command ?? "run";
+
+  let logPaths: LogPaths;
+  try {
+    logPaths = await node.transaction(async () => {
+      const paths = await node.createLogForStep(planStep);
+      if (actionable.status !== "in-progress") {
+        await node.transitionStep(actionable.step, "in-progress");
+      } else {
+        await node.persistState();
+      }
+      if (options.complete) {
+        await node.transitionStep(actionable.step, "done", { force: options.force });
+      }
+      return paths;
+    });
+  } catch (error) {
+    if (leaseTaken) {
+      await releaseWorkNodeLock(layout, { owner, session, storage: options.storage });
+    }
+    if (error instanceof StepCompletionError) {
+      throw new RunStepError("step-incomplete", error.message);
+    }
+    throw error;
+  }
+
+  if (options.complete) {
+    await releaseWorkNodeLock(layout, { owner, session, storage: options.storage });
+  }
+
+  return { node, step: actionable, planStep, logPath: logPaths.relative, completed: Boolean(options.complete), session };
+}
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+import { createWorkTreeServer } from "./server.js";
+import type { WorkTreeServerOptions } from "./server.js";
+import { WorkNode } from "./work-node.js";
+
+const STEPS = [{ phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] }];
+
+interface Reply {
+  status: number;
+  body: { error?: { code: string }; [key: string]: unknown };
+}
+
+interface SendOptions {
+  body?: string;
+  headers?: http.OutgoingHttpHeaders;
+}
+
+type Send = (method: string, url: string, options?: SendOptions) => Promise<Reply>;
+
+/** Serves a tree with one node `api` on an ephemeral port and returns a request helper. */
+async function startServer(
+  t: { after(fn: () => Promise<void> | void): void },
+  options: WorkTreeServerOptions = {}
+): Promise<Send> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "worktree-server-"));
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  await WorkNode.initialize(path.join(root, "api"), STEPS);
+  const server = createWorkTreeServer(root, options);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  t.after(() => {
+    server.close();
+    server.closeAllConnections();
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return (method, url, options = {}) =>
+    new Promise((resolve, reject) => {
+      const target = { host: "127.0.0.1", port, method, path: url, headers: options.headers };
+      const request = http.request(target, (response) => {
+        const chunks: Buffer[] = [];
+        response.on("data", (chunk: Buffer) => chunks.push(chunk));
+        response.on("end", () =>
+          resolve({ status: response.statusCode ?? 0, body: JSON.parse(Buffer.concat(chunks).toString("utf8")) })
+        );
+      });
+      request.on("error", reject);
+      request.end(options.body);
+    });
+}
+
+const JSON_HEADERS = { "content-type": "application/json" };
+
+test("runs a step and appends a note within its lease session", async (t) => {
+  const send = await startServer(t);
+  const nodes = (await send("GET", "/nodes")).body.nodes as { node: string }[];
+  assert.deepEqual(nodes.map((entry) => entry.node), ["api"]);
+
+  const run = await send("POST", "/nodes/api/run", { body: '{"owner":"bot"}', headers: JSON_HEADERS });
+  assert.equal(run.status, 200);
+  assert.equal((run.body.step as { status: string }).status, "in-progress");
+
+  const foreign = await send("POST", "/nodes/api/notes", {
+    body: '{"text":"Parsed.","owner":"bot"}',
+    headers: JSON_HEADERS
+  });
+  assert.equal(foreign.body.error?.code, "node-locked");
+  const note = await send("POST", "/nodes/api/notes", {
+    body: JSON.stringify({ text: "Parsed.", owner: "bot", session: run.body.session }),
+    headers: JSON_HEADERS
+  });
+  assert.equal(note.status, 200);
+  assert.equal(note.body.logPath, "logs/p1-s1.1.md");
+});
+
+test("requires a JSON content type on POST routes", async (t) => {
+  const send = await startServer(t);
+  const plain = await send("POST", "/nodes/api/run", {
+    body: '{"owner":"bot"}',
+    headers: { "content-type": "text/plain" }
+  });
+  assert.equal(plain.status, 415);
+  assert.equal(plain.body.error?.code, "unsupported-media-type");
+
+  const malformed = await send("POST", "/nodes/api/run", { body: "{", headers: JSON_HEADERS });
+  assert.equal(malformed.body.error?.code, "invalid-json");
+  const next = await send("GET", "/nodes/api/next");
+  assert.equal((next.body.step as { status: string }).status, "todo");
+});
+
+test("refuses requests for a non-loopback Host or Origin", async (t) => {
+  const send = await startServer(t);
+  const rebound = await send("GET", "/nodes", { headers: { host: "attacker.example:7420" } });
+  assert.equal(rebound.status, 403);
+  assert.equal(rebound.body.error?.code, "forbidden");
+
+  const crossSite = await send("POST", "/nodes/api/run", {
+    body: "{}",
+    headers: { ...JSON_HEADERS, origin: "https://attacker.example" }
+  });
+  assert.equal(crossSite.status, 403);
+  assert.equal((await send("GET", "/nodes", { headers: { origin: "null" } })).status, 403);
+  assert.equal((await send("GET", "/nodes", { headers: { origin: "http://localhost:5173" } })).status, 200);
+});
+
+test("answers a malformed percent-encoded path with bad-request", async (t) => {
+  const send = await startServer(t);
+  const reply = await send("GET", "/nodes/%E0%A4%A");
+  assert.equal(reply.status, 400);
+  assert.equal(reply.body.error?.code, "bad-request");
+});
+
+test("refuses force unless the server allows it", async (t) => {
+  const send = await startServer(t);
+  const run = await send("POST", "/nodes/api/run", { body: '{"owner":"bot"}', headers: JSON_HEADERS });
+  const body = JSON.stringify({ owner: "bot", session: run.body.session, force: true });
+
+  const forced = await send("POST", "/nodes/api/complete", { body, headers: JSON_HEADERS });
+  assert.equal(forced.status, 403);
+  assert.equal(forced.body.error?.code, "forbidden");
+  const next = await send("GET", "/nodes/api/next");
+  assert.equal((next.body.step as { status: string }).status, "in-progress");
+
+  const allowing = await startServer(t, { allowForce: true });
+  const allowedRun = await allowing("POST", "/nodes/api/run", { body: '{"owner":"bot"}', headers: JSON_HEADERS });
+  const completed = await allowing("POST", "/nodes/api/complete", {
+    body: JSON.stringify({ owner: "bot", session: allowedRun.body.session, force: true }),
+    headers: JSON_HEADERS
+  });
+  assert.equal(completed.status, 200);
+  assert.equal((completed.body.step as { status: string }).status, "done");
+});
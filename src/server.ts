@@ -0,0 +1,349 @@
+import http from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import path from "node:path";
+import { buildAuditJsonReport } from "./audit-report.js";
+import { auditWorkNodesSince } from "./history.js";
+import { assertWorkNodeWritable, defaultLockOwner } from "./lock.js";
+import { RunStepError, runWorkNodeStep } from "./runner.js";
+import { recoverWorkNodeTransaction } from "./transaction.js";
+import { WorkNode, auditWorkNodes, discoverWorkNodes, validateWorkNodeLayout } from "./work-node.js";
+import type { RunStepErrorCode } from "./runner.js";
+import type { WorkNodeLayout } from "./work-node.js";
+
+export const DEFAULT_SERVER_PORT = 7420;
+
+/** Hostnames the server binds to and answers for; see `assertLoopbackRequest`. */
+export const LOOPBACK_HOSTS: ReadonlySet<string> = new Set(["127.0.0.1", "::1", "localhost"]);
+
+/** Error codes returned in `{ "error": { "code", "message" } }` bodies, with their HTTP status. */
+export const API_ERROR_STATUS = {
+  "bad-request": 400,
+  "invalid-json": 400,
+  forbidden: 403,
+  "not-found": 404,
+  "method-not-allowed": 405,
+  "unsupported-media-type": 415,
+  "node-not-found": 404,
+  "step-not-found": 404,
+  "node-inconsistent": 422,
+  "no-actionable-step": 409,
+  "no-active-step": 409,
+  "node-locked": 409,
+  "step-incomplete": 409,
+  "internal-error": 500
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS;
+
+export interface WorkTreeServerOptions {
+  /** Version reported by `GET /`. */
+  toolVersion?: string;
+  /**
+   * Accept `force` on run and complete, letting a client complete a step whose log fails
+   * the completion checks. Off by default; the operator enables it (`worktree serve --allow-force`).
+   */
+  allowForce?: boolean;
+}
+
+class ApiError extends Error {
+  readonly code: ApiErrorCode;
+
+  constructor(code: ApiErrorCode, message: string) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const RUN_ERROR_CODES: Record<RunStepErrorCode, ApiErrorCode> = {
+  "invalid-node": "node-not-found",
+  "node-inconsistent": "node-inconsistent",
+  "no-actionable-step": "no-actionable-step",
+  "node-locked": "node-locked",
+  "step-incomplete": "step-incomplete"
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "content-type": "application/json; charset=utf-8" });
+  response.end(`${JSON.stringify(body, null, 2)}\n`);
+}
+
+function isLoopbackHost(host: string): boolean {
+  try {
+    return LOOPBACK_HOSTS.has(new URL(`http://${host}`).hostname.replace(/^\[(.*)\]$/, "$1"));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Refuses requests whose Host or Origin names anything but a loopback address, so a web
+ * page cannot reach the API through DNS rebinding or a cross-site request.
+ */
+function assertLoopbackRequest(request: IncomingMessage): void {
+  const host = request.headers.host;
+  if (host !== undefined && !isLoopbackHost(host)) {
+    throw new ApiError("forbidden", `requests for host '${host}' are not served; use a loopback address`);
+  }
+  const origin = request.headers.origin;
+  if (origin === undefined) {
+    return;
+  }
+  let originHost: string | null = null;
+  try {
+    const url = new URL(origin);
+    originHost = url.protocol === "http:" || url.protocol === "https:" ? url.host : null;
+  } catch {
+    originHost = null;
+  }
+  if (originHost === null || !isLoopbackHost(originHost)) {
+    throw new ApiError("forbidden", `requests from origin '${origin}' are not served`);
+  }
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const mediaType = (request.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+  if (mediaType !== "application/json") {
+    throw new ApiError("unsupported-media-type", "request body must be sent with Content-Type: application/json");
+  }
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ApiError("bad-request", "request body is too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8").trim();
+  if (!text) {
+    return {};
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new ApiError("invalid-json", "request body is not valid JSON");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ApiError("bad-request", "request body must be a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function optionalString(body: Record<string, unknown>, key: string): string | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ApiError("bad-request", `'${key}' must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalPositiveInteger(body: Record<string, unknown>, key: string): number | undefined {
+  const value = body[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new ApiError("bad-request", `'${key}' must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Serves the WorkTree engine over HTTP for orchestrators on the same machine. Nodes are
+ * addressed by their path relative to `root` (URL-encoded, `.` for the root itself), and
+ * mutations go through the same library calls as the CLI, serialized per node.
+ */
+export function createWorkTreeServer(root: string, options: WorkTreeServerOptions = {}): http.Server {
+  const serverRoot = path.resolve(root);
+  const queues = new Map<string, Promise<unknown>>();
+
+  const nodeId = (layout: WorkNodeLayout): string =>
+    path.relative(serverRoot, layout.root).split(path.sep).join("/") || ".";
+
+  const resolveNode = async (id: string): Promise<WorkNodeLayout> => {
+    const target = path.resolve(serverRoot, id);
+    const relative = path.relative(serverRoot, target);
+    if (relative.startsWith("..") || path.isAbsolute(relative)) {
+      throw new ApiError("node-not-found", `node '${id}' is outside the served root`);
+    }
+    try {
+      return await validateWorkNodeLayout(target);
+    } catch (error) {
+      throw new ApiError("node-not-found", (error as Error).message);
+    }
+  };
+
+  /** Loads a node; writers pass `forUpdate` to first finish an interrupted operation. */
+  const loadNode = async (layout: WorkNodeLayout, forUpdate = false): Promise<WorkNode> => {
+    try {
+      if (forUpdate) {
+        await recoverWorkNodeTransaction(layout);
+      }
+      return await WorkNode.loadFromLayout(layout);
+    } catch (error) {
+      throw new ApiError("node-inconsistent", (error as Error).message);
+    }
+  };
+
+  const serialize = <T>(layout: WorkNodeLayout, task: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(layout.root) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    queues.set(layout.root, next);
+    return next;
+  };
+
+  const runStep = async (layout: WorkNodeLayout, body: Record<string, unknown>, complete: boolean) => {
+    if (body.force !== undefined && !options.allowForce) {
+      throw new ApiError("forbidden", "force is not enabled for this server (worktree serve --allow-force)");
+    }
+    try {
+      const result = await serialize(layout, () =>
+        runWorkNodeStep(layout.root, {
+          command: "serve",
+          owner: optionalString(body, "owner"),
+          session: optionalString(body, "session"),
+          ttlSeconds: optionalPositiveInteger(body, "ttlSeconds"),
+          complete,
+          force: body.force === true
+        })
+      );
+      return {
+        node: nodeId(layout),
+        step: result.node.state.findById(result.step.step),
+        details: result.planStep.details ?? [],
+        logPath: result.logPath,
+        completed: result.completed,
+        session: result.session
+      };
+    } catch (error) {
+      if (error instanceof RunStepError) {
+        throw new ApiError(RUN_ERROR_CODES[error.code], error.message);
+      }
+      throw error;
+    }
+  };
+
+  const appendNote = async (layout: WorkNodeLayout, body: Record<string, unknown>) => {
+    const text = optionalString(body, "text");
+    if (!text) {
+      throw new ApiError("bad-request", "'text' is required");
+    }
+    const step = optionalString(body, "step");
+    const owner = optionalString(body, "owner") ?? defaultLockOwner();
+    const session = optionalString(body, "session");
+    return serialize(layout, async () => {
+      const node = await loadNode(layout, true);
+      node.lockOwner = owner;
+      node.lockSession = session;
+      node.command = "serve";
+      if (step && !node.state.findById(step)) {
+        throw new ApiError("step-not-found", `step ${step} not found in STATE.md`);
+      }
+      let logPath: string;
+      try {
+        logPath = (await node.resolveActiveLog(step)).paths.relative;
+      } catch (error) {
+        throw new ApiError("no-active-step", (error as Error).message);
+      }
+      try {
+        await assertWorkNodeWritable(layout, owner, undefined, session);
+      } catch (error) {
+        throw new ApiError("node-locked", (error as Error).message);
+      }
+      const entry = await node.appendNote(text, step);
+      return { node: nodeId(layout), step: entry.step, logPath };
+    });
+  };
+
+  const describeNode = async (layout: WorkNodeLayout) => {
+    const node = await loadNode(layout);
+    return {
+      node: nodeId(layout),
+      root: layout.root,
+      plan: node.plan.steps,
+      state: node.state.entries,
+      logs: node.logs.map(({ document, ...log }) => ({ ...log, contents: document.toString() }))
+    };
+  };
+
+  const route = async (request: IncomingMessage): Promise<unknown> => {
+    assertLoopbackRequest(request);
+    const url = new URL(request.url ?? "/", "http://localhost");
+    let segments: string[];
+    try {
+      segments = url.pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    } catch {
+      throw new ApiError("bad-request", `${url.pathname} is not a validly encoded path`);
+    }
+    const method = request.method ?? "GET";
+    const expect = (allowed: string): void => {
+      if (method !== allowed) {
+        throw new ApiError("method-not-allowed", `${method} is not supported on ${url.pathname}; use ${allowed}`);
+      }
+    };
+
+    if (!segments.length) {
+      expect("GET");
+      return { name: "worktree", version: options.toolVersion ?? null, root: serverRoot };
+    }
+    if (segments[0] === "audit" && segments.length === 1) {
+      expect("GET");
+      const target = url.searchParams.get("node");
+      const auditRoot = target ? (await resolveNode(target)).root : serverRoot;
+      const since = url.searchParams.get("since");
+      const results = since ? await auditWorkNodesSince(auditRoot, since) : await auditWorkNodes(auditRoot);
+      return buildAuditJsonReport(results, { root: auditRoot, toolVersion: options.toolVersion ?? "" });
+    }
+    if (segments[0] !== "nodes" || segments.length > 3) {
+      throw new ApiError("not-found", `no route for ${url.pathname}`);
+    }
+    if (segments.length === 1) {
+      expect("GET");
+      const layouts = await discoverWorkNodes(serverRoot);
+      return { nodes: layouts.map((layout) => ({ node: nodeId(layout), root: layout.root })) };
+    }
+
+    const layout = await resolveNode(segments[1]);
+    const action = segments[2];
+    if (!action) {
+      expect("GET");
+      return describeNode(layout);
+    }
+    switch (action) {
+      case "next": {
+        expect("GET");
+        const node = await loadNode(layout);
+        const step = node.getNextActionableStep() ?? null;
+        return { node: nodeId(layout), step, details: step ? node.plan.find(step.phase, step.step)?.details ?? [] : [] };
+      }
+      case "run":
+      case "complete":
+        expect("POST");
+        return runStep(layout, await readJsonBody(request), action === "complete");
+      case "notes":
+        expect("POST");
+        return appendNote(layout, await readJsonBody(request));
+      default:
+        throw new ApiError("not-found", `no route for ${url.pathname}`);
+    }
+  };
+
+  return http.createServer((request, response) => {
+    route(request).then(
+      (body) => sendJson(response, 200, body),
+      (error) => {
+        const apiError =
+          error instanceof ApiError ? error : new ApiError("internal-error", (error as Error).message ?? String(error));
+        sendJson(response, API_ERROR_STATUS[apiError.code], {
+          error: { code: apiError.code, message: apiError.message }
+        });
+      }
+    );
+  });
+}
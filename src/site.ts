@@ -0,0 +1,353 @@
+import path from "node:path";
+import { STEP_STATUS_COLORS } from "./graph.js";
+import { fileSystemStorage } from "./storage.js";
+import { STEP_STATUSES, WorkNode, buildWorkNodeRelations, canonicalLogPaths, discoverWorkNodes } from "./work-node.js";
+import type { WorkNodeStorage } from "./storage.js";
+import type { LogMetadata, StepStatus, WorkNodeRelation } from "./work-node.js";
+
+export interface SiteOptions {
+  /** Shown in the page footer. */
+  toolVersion?: string;
+  now?: Date;
+  storage?: WorkNodeStorage;
+}
+
+export interface SiteResult {
+  /** Number of WorkNodes rendered. */
+  nodes: number;
+  /** Absolute paths of every page written. */
+  pages: string[];
+}
+
+const STYLE = `
+body { font: 15px/1.5 system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1.5rem; color: #111827; }
+a { color: #1d4ed8; }
+h1 { margin-top: 0; }
+nav { margin-bottom: 1rem; font-size: 0.9rem; }
+table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+th, td { border-bottom: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+code, pre { font-family: ui-monospace, monospace; background: #f3f4f6; border-radius: 3px; }
+code { padding: 0 0.2rem; }
+pre { padding: 0.75rem; overflow-x: auto; }
+.badge { display: inline-block; padding: 0 0.5rem; border-radius: 999px; border: 1px solid; font-size: 0.8rem; white-space: nowrap; }
+.bar { display: flex; width: 12rem; height: 0.75rem; border-radius: 3px; overflow: hidden; background: #f3f4f6; }
+.bar span { display: block; height: 100%; }
+.error { color: #b91c1c; }
+.markdown li { margin: 0.15rem 0; }
+.markdown ul.tasks { list-style: none; padding-left: 1.2rem; }
+#search { width: 100%; padding: 0.4rem; font-size: 1rem; box-sizing: border-box; }
+#results li[hidden] { display: none; }
+footer { margin-top: 2rem; font-size: 0.8rem; color: #6b7280; }
+`;
+
+const SEARCH_SCRIPT = `
+const input = document.getElementById("search");
+const items = Array.from(document.querySelectorAll("#results li"));
+const update = () => {
+  const query = input.value.trim().toLowerCase();
+  for (const item of items) {
+    item.hidden = !query || !item.dataset.search.includes(query);
+  }
+};
+input.addEventListener("input", update);
+update();
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderInline(text: string): string {
+  const spans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, code: string) => {
+    spans.push(`<code>${code}</code>`);
+    return `\u0000${spans.length - 1}\u0000`;
+  });
+  html = html
+    .replace(/\[([^\]]+)\]\(((?:https?:\/\/|\.{0,2}\/|#)[^)\s]*|[\w./-]+)\)/g, '<a href="$2">$1</a>')
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, "$1<em>$2</em>");
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => spans[Number(index)]);
+}
+
+/**
+ * Renders the markdown WorkNode files use: headings, nested and task lists, fenced code,
+ * quotes, rules, and paragraphs with inline code, emphasis, and links. Raw HTML is escaped.
+ */
+export function renderMarkdown(markdown: string): string {
+  const out: string[] = [];
+  const lists: { indent: number; tag: string }[] = [];
+  let paragraph: string[] = [];
+  let fence: string[] | null = null;
+
+  const flushParagraph = (): void => {
+    if (paragraph.length) {
+      out.push(`<p>${renderInline(paragraph.join(" "))}</p>`);
+      paragraph = [];
+    }
+  };
+  const closeLists = (indent = -1): void => {
+    while (lists.length && lists[lists.length - 1].indent > indent) {
+      out.push(`</li></${lists.pop()!.tag}>`);
+    }
+  };
+
+  for (const raw of markdown.split(/\r?\n/)) {
+    if (fence) {
+      if (/^\s*```/.test(raw)) {
+        out.push(`<pre><code>${escapeHtml(fence.join("\n"))}</code></pre>`);
+        fence = null;
+      } else {
+        fence.push(raw);
+      }
+      continue;
+    }
+    if (/^\s*```/.test(raw)) {
+      flushParagraph();
+      closeLists();
+      fence = [];
+      continue;
+    }
+    if (!raw.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const item = /^(\s*)([-*+]|\d+\.)\s+(.*)$/.exec(raw);
+    if (item) {
+      flushParagraph();
+      const indent = item[1].length;
+      const tag = /\d/.test(item[2]) ? "ol" : "ul";
+      const task = /^\[([ xX])\]\s*(.*)$/.exec(item[3]);
+      closeLists(indent);
+      const current = lists[lists.length - 1];
+      if (current && current.indent === indent) {
+        out.push("</li>");
+      } else {
+        out.push(task ? `<${tag} class="tasks">` : `<${tag}>`);
+        lists.push({ indent, tag });
+      }
+      out.push(
+        task
+          ? `<li><input type="checkbox" disabled${task[1] === " " ? "" : " checked"}> ${renderInline(task[2])}`
+          : `<li>${renderInline(item[3])}`
+      );
+      continue;
+    }
+    if (lists.length && /^\s+\S/.test(raw)) {
+      out.push(` ${renderInline(raw.trim())}`);
+      continue;
+    }
+
+    closeLists();
+    const heading = /^(#{1,6})\s+(.*)$/.exec(raw);
+    if (heading) {
+      flushParagraph();
+      out.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+    } else if (/^\s*(-{3,}|\*{3,})\s*$/.test(raw)) {
+      flushParagraph();
+      out.push("<hr>");
+    } else if (raw.startsWith(">")) {
+      flushParagraph();
+      out.push(`<blockquote>${renderInline(raw.replace(/^>\s?/, ""))}</blockquote>`);
+    } else {
+      paragraph.push(raw.trim());
+    }
+  }
+
+  if (fence) {
+    out.push(`<pre><code>${escapeHtml(fence.join("\n"))}</code></pre>`);
+  }
+  flushParagraph();
+  closeLists();
+  return out.join("\n");
+}
+
+function badge(status: StepStatus): string {
+  const color = STEP_STATUS_COLORS[status];
+  return `<span class="badge" style="background:${color.fill};border-color:${color.stroke}">${status}</span>`;
+}
+
+function progressBar(counts: Record<StepStatus, number>): string {
+  const total = STEP_STATUSES.reduce((sum, status) => sum + counts[status], 0);
+  if (!total) {
+    return '<div class="bar"></div>';
+  }
+  const segments = STEP_STATUSES.filter((status) => counts[status]).map(
+    (status) =>
+      `<span title="${counts[status]} ${status}" style="width:${(counts[status] / total) * 100}%;background:${STEP_STATUS_COLORS[status].stroke}"></span>`
+  );
+  return `<div class="bar">${segments.join("")}</div>`;
+}
+
+function page(title: string, body: string, footer: string, script = ""): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    body,
+    `<footer>${footer}</footer>`,
+    script ? `<script>${script}</script>` : "",
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
+
+interface SiteNode {
+  relation: WorkNodeRelation;
+  id: string;
+  /** Shown in titles and links; the root node goes by its directory name. */
+  label: string;
+  /** Page path relative to the site root. */
+  href: string;
+  node: WorkNode | null;
+  error: string | null;
+  counts: Record<StepStatus, number>;
+}
+
+function nodeSlug(id: string): string {
+  return id === "." ? "root" : id.replace(/\//g, "--");
+}
+
+/** The log without its header block, which the log page shows as a table. */
+function withoutHeaders(log: LogMetadata): string {
+  const headerLines = new Set(log.document.headers.map((field) => field.line));
+  return log.document
+    .toString()
+    .split(/\r?\n/)
+    .filter((_, index) => !headerLines.has(index))
+    .join("\n");
+}
+
+function logHref(slug: string, log: { phase: number; step: string }): string {
+  return `${slug}/p${log.phase}-s${log.step}.html`;
+}
+
+/**
+ * Writes a self-contained static site for every WorkNode under `root` into `outDir`: an
+ * index with progress bars and a step search, one page per node with its PLAN, a STATE
+ * table, and links to each rendered step log. Pages need no server or network access.
+ */
+export async function generateWorkTreeSite(root: string, outDir: string, options: SiteOptions = {}): Promise<SiteResult> {
+  const storage = options.storage ?? fileSystemStorage;
+  const siteRoot = path.resolve(root);
+  const out = path.resolve(outDir);
+  const footer = `Generated by worktree ${escapeHtml(options.toolVersion ?? "")} on ${(options.now ?? new Date()).toISOString()}`;
+  const relations = buildWorkNodeRelations(await discoverWorkNodes(siteRoot, storage));
+  const pages: string[] = [];
+  const write = async (relative: string, contents: string): Promise<void> => {
+    const target = path.join(out, relative);
+    await storage.writeFile(target, contents);
+    pages.push(target);
+  };
+
+  const nodes: SiteNode[] = [];
+  for (const relation of relations) {
+    const id = path.relative(siteRoot, relation.layout.root).split(path.sep).join("/") || ".";
+    const counts = Object.fromEntries(STEP_STATUSES.map((status) => [status, 0])) as Record<StepStatus, number>;
+    let node: WorkNode | null = null;
+    let error: string | null = null;
+    try {
+      node = await WorkNode.loadFromLayout(relation.layout, storage);
+      node.state.entries.forEach((row) => (counts[row.status] += 1));
+    } catch (caught) {
+      error = (caught as Error).message;
+    }
+    const label = id === "." ? path.basename(siteRoot) : id;
+    nodes.push({ relation, id, label, href: `nodes/${nodeSlug(id)}.html`, node, error, counts });
+  }
+  const byRoot = new Map(nodes.map((entry) => [entry.relation.layout.root, entry]));
+
+  const rows = nodes.map((entry) => {
+    const total = entry.node?.state.entries.length ?? 0;
+    const finished = entry.counts.done + entry.counts.superseded;
+    const summary = entry.error
+      ? `<span class="error">${escapeHtml(entry.error)}</span>`
+      : `${progressBar(entry.counts)} ${finished}/${total} finished`;
+    return `<tr><td><a href="${entry.href}">${escapeHtml(entry.label)}</a></td><td>${summary}</td></tr>`;
+  });
+  const searchItems = nodes.flatMap((entry) =>
+    (entry.node?.state.entries ?? []).map((row) => {
+      const haystack = escapeHtml(`${entry.id} ${row.step} ${row.label}`.toLowerCase());
+      return `<li data-search="${haystack}" hidden><a href="${entry.href}#step-${row.step}">${escapeHtml(entry.label)} · ${row.step} ${escapeHtml(row.label)}</a> ${badge(row.status)}</li>`;
+    })
+  );
+  await write(
+    "index.html",
+    page(
+      "WorkNodes",
+      [
+        "<h1>WorkNodes</h1>",
+        `<p>${nodes.length} node(s) under <code>${escapeHtml(siteRoot)}</code>.</p>`,
+        '<input id="search" type="search" placeholder="Search step labels" autocomplete="off">',
+        `<ul id="results">${searchItems.join("\n")}</ul>`,
+        `<table><thead><tr><th>Node</th><th>Progress</th></tr></thead><tbody>\n${rows.join("\n")}\n</tbody></table>`
+      ].join("\n"),
+      footer,
+      SEARCH_SCRIPT
+    )
+  );
+
+  for (const entry of nodes) {
+    const slug = nodeSlug(entry.id);
+    const nav = ['<nav><a href="../index.html">All nodes</a>'];
+    const parent = entry.relation.parent ? byRoot.get(entry.relation.parent.root) : undefined;
+    if (parent) {
+      nav.push(` · parent: <a href="${nodeSlug(parent.id)}.html">${escapeHtml(parent.label)}</a>`);
+    }
+    const children = entry.relation.children
+      .map((child) => byRoot.get(child.root))
+      .filter((child): child is SiteNode => Boolean(child))
+      .map((child) => `<a href="${nodeSlug(child.id)}.html">${escapeHtml(child.label)}</a>`);
+    if (children.length) {
+      nav.push(` · children: ${children.join(", ")}`);
+    }
+    nav.push("</nav>");
+
+    const body = [...nav, `<h1>${escapeHtml(entry.label)}</h1>`];
+    if (!entry.node) {
+      body.push(`<p class="error">This node failed to load: ${escapeHtml(entry.error ?? "")}</p>`);
+      await write(entry.href, page(entry.label, body.join("\n"), footer));
+      continue;
+    }
+    const node = entry.node;
+    const logs = new Map<string, LogMetadata>(node.logs.map((log) => [log.step, log]));
+    const stateRows = node.state.entries.map((row) => {
+      const log = logs.get(row.step);
+      const label = log
+        ? `<a href="${logHref(slug, row)}">${escapeHtml(row.label)}</a>`
+        : escapeHtml(row.label);
+      return `<tr id="step-${row.step}"><td>${row.phase}</td><td>${row.step}</td><td>${label}</td><td>${badge(row.status)}</td><td>${escapeHtml(log?.started ?? "")}</td><td>${escapeHtml(log?.completed ?? "")}</td></tr>`;
+    });
+    body.push(
+      progressBar(entry.counts),
+      "<h2>STATE</h2>",
+      `<table><thead><tr><th>Phase</th><th>Step</th><th>Label</th><th>Status</th><th>Started</th><th>Completed</th></tr></thead><tbody>\n${stateRows.join("\n")}\n</tbody></table>`,
+      "<h2>PLAN</h2>",
+      `<div class="markdown">${renderMarkdown(await storage.readFile(node.layout.planPath))}</div>`
+    );
+    await write(entry.href, page(entry.label, body.join("\n"), footer));
+
+    for (const log of node.logs) {
+      const headers = log.document.headers.map(
+        (field) => `<tr><th>${escapeHtml(field.key)}</th><td>${escapeHtml(field.value)}</td></tr>`
+      );
+      const logBody = [
+        `<nav><a href="../../index.html">All nodes</a> · <a href="../${slug}.html#step-${log.step}">${escapeHtml(entry.label)}</a></nav>`,
+        `<p><code>${escapeHtml(canonicalLogPaths(node.layout, log).relative)}</code> ${badge(log.status)}</p>`,
+        `<table><tbody>${headers.join("")}</tbody></table>`,
+        `<div class="markdown">${renderMarkdown(withoutHeaders(log))}</div>`
+      ];
+      await write(`nodes/${logHref(slug, log)}`, page(`${entry.label} ${log.step}`, logBody.join("\n"), footer));
+    }
+  }
+
+  return { nodes: nodes.length, pages };
+}
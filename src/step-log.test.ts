@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { StepLog } from "./step-log.js";
+
+const LOG = [
+  "# Phase 1 – Step 1.1: Write the parser",
+  "status: in-progress",
+  "reviewer: ana",
+  "",
+  "## Scope",
+  "Parse the input.",
+  "",
+  "## Design",
+  "Free-form text the protocol does not know about.",
+  "",
+  "## Notes",
+  "- 2026-01-01T00:00:00Z Started.",
+  ""
+].join("\n");
+
+test("round-trips logs byte for byte", () => {
+  for (const contents of [LOG, LOG.replace(/\n/g, "\r\n"), LOG.trimEnd(), LOG.trimEnd().replace(/\n/g, "\r\n")]) {
+    assert.equal(StepLog.parse(contents).toString(), contents);
+  }
+});
+
+test("edits keep unknown sections and the line endings of the file", () => {
+  const crlf = LOG.replace(/\n/g, "\r\n");
+  const log = StepLog.parse(crlf);
+  log.setHeader("status", "blocked");
+  log.appendToSection("Notes", "- 2026-01-02T00:00:00Z Blocked.");
+
+  assert.equal(log.section("Design")?.[0], "Free-form text the protocol does not know about.");
+  assert.equal(
+    log.toString(),
+    crlf
+      .replace("status: in-progress", "status: blocked")
+      .replace("Started.\r\n", "Started.\r\n- 2026-01-02T00:00:00Z Blocked.\r\n")
+  );
+});
@@ -0,0 +1,282 @@
+import { STEP_STATUSES } from "./work-node.js";
+import type { PlanStep, StepIdentifier, StepStatus } from "./work-node.js";
+
+export interface StepLogHeaderField {
+  key: string;
+  value: string;
+  /** Zero-based line index inside the log. */
+  line: number;
+}
+
+export interface StepLogSection {
+  name: string;
+  /** Line index of the `## <name>` heading. */
+  heading: number;
+  /** Line index just past the last body line of the section. */
+  end: number;
+}
+
+export interface StepLogChecklistItem {
+  checked: boolean;
+  text: string;
+  line: number;
+}
+
+export interface StepLogNote {
+  timestamp: string | null;
+  text: string;
+  line: number;
+}
+
+const TITLE_REGEX = /^#\s+Phase\s+(\d+)\s+[–-]\s+Step\s+([0-9]+(?:\.[0-9]+)*)\s*:\s*(.*)$/;
+const HEADER_LINE_REGEX = /^([A-Za-z][\w-]*):\s*(.*)$/;
+const SECTION_HEADING_REGEX = /^##\s+(.+?)\s*$/;
+const CHECKLIST_ITEM_REGEX = /^\s*-\s*\[([ xX])\]\s*(.*)$/;
+const NOTE_LINE_REGEX = /^\s*-\s+(?:(\d{4}-\d{2}-\d{2}T[0-9:.]+Z)\s+)?(.*)$/;
+const OUTCOMES_PLACEHOLDER_REGEX = /^\(Filled when status becomes done\)$/i;
+
+/**
+ * Line-preserving model of a step log. Accessors interpret the protocol sections while
+ * `toString()` reproduces the original bytes for everything that was not edited.
+ */
+export class StepLog {
+  readonly lines: string[];
+  private readonly lineSuffix: string;
+
+  private constructor(lines: string[], lineSuffix: string) {
+    this.lines = lines;
+    this.lineSuffix = lineSuffix;
+  }
+
+  static parse(contents: string): StepLog {
+    return new StepLog(contents.split("\n"), contents.includes("\r\n") ? "\r" : "");
+  }
+
+  static create(planStep: PlanStep, status: StepStatus, started: string = new Date().toISOString()): StepLog {
+    const planDetails = planStep.details ?? [];
+    const scope = planDetails.length ? planDetails.join(" · ") : planStep.label;
+    const planChecklist = planDetails.length > 0 ? planDetails.map((detail) => `- [ ] ${detail}`) : ["- [ ] TODO"];
+    return StepLog.parse(
+      [
+        `# Phase ${planStep.phase} – Step ${planStep.step}: ${planStep.label}`,
+        `status: ${status}`,
+        `started: ${started}`,
+        "",
+        "## Scope",
+        scope,
+        "",
+        "## Plan",
+        ...planChecklist,
+        "",
+        "## Notes",
+        "",
+        "## Outcomes",
+        ""
+      ].join("\n")
+    );
+  }
+
+  toString(): string {
+    return this.lines.join("\n");
+  }
+
+  private text(index: number): string {
+    return this.lines[index].replace(/\r$/, "");
+  }
+
+  get title(): string | null {
+    const first = this.lines.length ? this.text(0) : "";
+    return first.startsWith("# ") ? first.slice(2).trim() : null;
+  }
+
+  get identifier(): StepIdentifier | null {
+    const match = this.lines.length ? TITLE_REGEX.exec(this.text(0)) : null;
+    if (!match) {
+      return null;
+    }
+    return { phase: Number(match[1]), step: match[2], label: match[3].trim() };
+  }
+
+  /** Rewrites the `# Phase P – Step S: Label` title, inserting one when the log has none. */
+  setIdentifier(identifier: StepIdentifier): void {
+    const title = `# Phase ${identifier.phase} – Step ${identifier.step}: ${identifier.label}${this.lineSuffix}`;
+    if (this.title === null) {
+      this.lines.unshift(title);
+    } else {
+      this.lines[0] = title;
+    }
+  }
+
+  get headers(): StepLogHeaderField[] {
+    const fields: StepLogHeaderField[] = [];
+    for (let index = this.title === null ? 0 : 1; index < this.lines.length; index += 1) {
+      const match = HEADER_LINE_REGEX.exec(this.text(index));
+      if (!match) {
+        break;
+      }
+      fields.push({ key: match[1].toLowerCase(), value: match[2].trim(), line: index });
+    }
+    return fields;
+  }
+
+  getHeader(key: string): string | undefined {
+    return this.headers.find((field) => field.key === key)?.value;
+  }
+
+  /**
+   * Replaces a header field in place or inserts it after `after` (or at the end of the
+   * header block when that field is absent).
+   */
+  setHeader(key: string, value: string, after?: string): void {
+    const headers = this.headers;
+    const line = `${key}: ${value}${this.lineSuffix}`;
+    const existing = headers.find((field) => field.key === key);
+    if (existing) {
+      this.lines[existing.line] = line;
+      return;
+    }
+    const anchor = headers.find((field) => field.key === after) ?? headers[headers.length - 1];
+    const insertAt = anchor ? anchor.line + 1 : this.title === null ? 0 : 1;
+    this.lines.splice(insertAt, 0, line);
+  }
+
+  get sections(): StepLogSection[] {
+    const sections: StepLogSection[] = [];
+    for (let index = 0; index < this.lines.length; index += 1) {
+      const match = SECTION_HEADING_REGEX.exec(this.text(index));
+      if (!match) {
+        continue;
+      }
+      if (sections.length) {
+        sections[sections.length - 1].end = index;
+      }
+      sections.push({ name: match[1], heading: index, end: this.lines.length });
+    }
+    return sections;
+  }
+
+  section(name: string): string[] | null {
+    const section = this.sections.find((candidate) => candidate.name === name);
+    if (!section) {
+      return null;
+    }
+    const body: string[] = [];
+    for (let index = section.heading + 1; index < section.end; index += 1) {
+      body.push(this.text(index));
+    }
+    return body;
+  }
+
+  get scope(): string {
+    return (this.section("Scope") ?? []).filter((line) => line.trim()).join("\n");
+  }
+
+  get planItems(): StepLogChecklistItem[] {
+    const section = this.sections.find((candidate) => candidate.name === "Plan");
+    const items: StepLogChecklistItem[] = [];
+    if (!section) {
+      return items;
+    }
+    for (let index = section.heading + 1; index < section.end; index += 1) {
+      const match = CHECKLIST_ITEM_REGEX.exec(this.text(index));
+      if (match) {
+        items.push({ checked: match[1] !== " ", text: match[2].trim(), line: index });
+      }
+    }
+    return items;
+  }
+
+  get notes(): StepLogNote[] {
+    const section = this.sections.find((candidate) => candidate.name === "Notes");
+    const notes: StepLogNote[] = [];
+    if (!section) {
+      return notes;
+    }
+    for (let index = section.heading + 1; index < section.end; index += 1) {
+      const line = this.text(index);
+      const match = NOTE_LINE_REGEX.exec(line);
+      if (match) {
+        notes.push({ timestamp: match[1] ?? null, text: match[2].trim(), line: index });
+      } else if (line.trim() && notes.length) {
+        notes[notes.length - 1].text += ` ${line.trim()}`;
+      }
+    }
+    return notes;
+  }
+
+  get outcomes(): string[] {
+    return (this.section("Outcomes") ?? [])
+      .map((line) => line.trim())
+      .filter((line) => line && !OUTCOMES_PLACEHOLDER_REGEX.test(line))
+      .map((line) => line.replace(/^-\s+/, ""));
+  }
+
+  /**
+   * Inserts a line after the last non-blank line of a section, creating the section at
+   * the end of the log when it does not exist yet.
+   */
+  appendToSection(name: string, line: string): void {
+    const entry = `${line}${this.lineSuffix}`;
+    const section = this.sections.find((candidate) => candidate.name === name);
+    if (!section) {
+      while (this.lines.length && this.text(this.lines.length - 1) === "") {
+        this.lines.pop();
+      }
+      this.lines.push(this.lineSuffix, `## ${name}${this.lineSuffix}`, entry, "");
+      return;
+    }
+    let insertAt = section.end;
+    while (insertAt > section.heading + 1 && this.text(insertAt - 1).trim() === "") {
+      insertAt -= 1;
+    }
+    const trailingBlank = section.end < this.lines.length && insertAt === section.end ? [this.lineSuffix] : [];
+    this.lines.splice(insertAt, 0, entry, ...trailingBlank);
+  }
+
+  /**
+   * Lists what keeps the log from satisfying the §6 completion rules: every `## Plan`
+   * checklist item ticked and a non-empty `## Outcomes` section.
+   */
+  completionProblems(): string[] {
+    const problems: string[] = [];
+    if (this.section("Plan") === null) {
+      problems.push("missing ## Plan section");
+    }
+    for (const item of this.planItems) {
+      if (!item.checked) {
+        problems.push(`unchecked plan item: ${item.text}`);
+      }
+    }
+    if (this.section("Outcomes") === null) {
+      problems.push("missing ## Outcomes section");
+    } else if (!this.outcomes.length) {
+      problems.push("## Outcomes is empty");
+    }
+    return problems;
+  }
+
+  /**
+   * The status the step had before it moved into its current one, from the
+   * `previous-status:` header written with every transition.
+   */
+  get previousStatus(): StepStatus | undefined {
+    const value = this.getHeader("previous-status");
+    return value !== undefined && STEP_STATUSES.includes(value as StepStatus) ? (value as StepStatus) : undefined;
+  }
+}
+
+export function parseStepLog(contents: string): StepLog {
+  return StepLog.parse(contents);
+}
+
+export function findLogCompletionProblems(contents: string): string[] {
+  return StepLog.parse(contents).completionProblems();
+}
+
+export function findPreviousStatus(logContents: string): StepStatus | undefined {
+  return StepLog.parse(logContents).previousStatus;
+}
+
+export function formatNoteTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
@@ -0,0 +1,266 @@
+import { promises as fs, readFileSync, readdirSync, statSync } from "node:fs";
+import type { Dirent } from "node:fs";
+import path from "node:path";
+
+export type StorageEntryKind = "file" | "directory";
+
+export interface StorageEntry {
+  name: string;
+  kind: StorageEntryKind;
+}
+
+/**
+ * Where WorkNode files live. Paths are absolute; failures carry Node-style `code`s
+ * (`ENOENT`, `EEXIST`) so callers can tell a missing file from a broken backend.
+ */
+export interface WorkNodeStorage {
+  /** Reads a UTF-8 file; rejects with `ENOENT` when it does not exist. */
+  readFile(filePath: string): Promise<string>;
+  /**
+   * Replaces a file so readers never see partial contents, creating parent directories.
+   * With `exclusive`, rejects with `EEXIST` instead of replacing an existing file; the
+   * file still appears with its full contents at once.
+   */
+  writeFile(filePath: string, contents: string, options?: { exclusive?: boolean }): Promise<void>;
+  /**
+   * Adds to the end of a file without rewriting it, creating the file and its parent
+   * directories. Used for append-only files such as the events.jsonl journal.
+   */
+  appendFile(filePath: string, contents: string): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  /** Removes a file; removing a missing file is not an error. */
+  remove(filePath: string): Promise<void>;
+  /** Returns what exists at a path, or null when nothing does. */
+  stat(filePath: string): Promise<StorageEntryKind | null>;
+  /** Lists a directory; a missing directory lists as empty. */
+  readDir(directory: string): Promise<StorageEntry[]>;
+  /** Creates a directory and its parents. */
+  mkdir(directory: string): Promise<void>;
+}
+
+async function writeTempFile(filePath: string, contents: string): Promise<string> {
+  const directory = path.dirname(filePath);
+  await fs.mkdir(directory, { recursive: true });
+  const tempName = `.tmp-${process.pid}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  const tempPath = path.join(directory, tempName);
+  try {
+    await fs.writeFile(tempPath, contents, "utf8");
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+    throw error;
+  }
+  return tempPath;
+}
+
+/** Writes through a temporary file and a rename so readers never see a partial file. */
+export async function atomicWriteFile(filePath: string, contents: string): Promise<void> {
+  const tempPath = await writeTempFile(filePath, contents);
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Creates a file that must not exist yet, fully written: the temporary file is hard-linked
+ * into place, which fails with `EEXIST` rather than replacing an existing file.
+ */
+export async function exclusiveWriteFile(filePath: string, contents: string): Promise<void> {
+  const tempPath = await writeTempFile(filePath, contents);
+  try {
+    await fs.link(tempPath, filePath);
+  } finally {
+    await fs.rm(tempPath, { force: true }).catch(() => {});
+  }
+}
+
+export class FileSystemStorage implements WorkNodeStorage {
+  async readFile(filePath: string): Promise<string> {
+    return fs.readFile(filePath, "utf8");
+  }
+
+  async writeFile(filePath: string, contents: string, options: { exclusive?: boolean } = {}): Promise<void> {
+    if (options.exclusive) {
+      await exclusiveWriteFile(filePath, contents);
+      return;
+    }
+    await atomicWriteFile(filePath, contents);
+  }
+
+  async appendFile(filePath: string, contents: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(filePath, contents, { encoding: "utf8", flag: "a" });
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    await fs.rename(from, to);
+  }
+
+  async remove(filePath: string): Promise<void> {
+    await fs.rm(filePath, { force: true });
+  }
+
+  async stat(filePath: string): Promise<StorageEntryKind | null> {
+    try {
+      const stat = await fs.stat(filePath);
+      return stat.isDirectory() ? "directory" : "file";
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async readDir(directory: string): Promise<StorageEntry[]> {
+    try {
+      return toStorageEntries(await fs.readdir(directory, { withFileTypes: true }));
+    } catch {
+      return [];
+    }
+  }
+
+  async mkdir(directory: string): Promise<void> {
+    await fs.mkdir(directory, { recursive: true });
+  }
+
+  /** Synchronous `readFile`, backing the deprecated `*Sync` loaders. */
+  readFileSync(filePath: string): string {
+    return readFileSync(filePath, "utf8");
+  }
+
+  /** Synchronous `stat`, backing the deprecated `*Sync` loaders. */
+  statSync(filePath: string): StorageEntryKind | null {
+    const stat = statSync(filePath, { throwIfNoEntry: false });
+    return stat ? (stat.isDirectory() ? "directory" : "file") : null;
+  }
+
+  /** Synchronous `readDir`, backing the deprecated `*Sync` loaders. */
+  readDirSync(directory: string): StorageEntry[] {
+    try {
+      return toStorageEntries(readdirSync(directory, { withFileTypes: true }));
+    } catch {
+      return [];
+    }
+  }
+}
+
+function toStorageEntries(entries: Dirent[]): StorageEntry[] {
+  return entries
+    .filter((entry) => entry.isFile() || entry.isDirectory())
+    .map((entry) => ({ name: entry.name, kind: entry.isDirectory() ? "directory" : "file" }));
+}
+
+/** Shared default backend; every storage parameter falls back to it. */
+export const fileSystemStorage = new FileSystemStorage();
+
+function storageError(code: string, message: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${message}`);
+  error.code = code;
+  return error;
+}
+
+/**
+ * Keeps nodes in memory, for embedding WorkNodes in tools that store them elsewhere and
+ * for exercising orchestrators without touching disk. Seed it with absolute paths.
+ */
+export class MemoryStorage implements WorkNodeStorage {
+  private readonly files = new Map<string, string>();
+  private readonly directories = new Set<string>();
+
+  constructor(files: Record<string, string> = {}) {
+    for (const [filePath, contents] of Object.entries(files)) {
+      this.put(path.resolve(filePath), contents);
+    }
+  }
+
+  /** Every stored file by absolute path, sorted. */
+  snapshot(): Record<string, string> {
+    return Object.fromEntries([...this.files.entries()].sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  private addDirectory(directory: string): void {
+    let current = directory;
+    while (!this.directories.has(current)) {
+      this.directories.add(current);
+      const parent = path.dirname(current);
+      if (parent === current) {
+        break;
+      }
+      current = parent;
+    }
+  }
+
+  private put(filePath: string, contents: string): void {
+    if (this.directories.has(filePath)) {
+      throw storageError("EISDIR", `${filePath} is a directory`);
+    }
+    this.addDirectory(path.dirname(filePath));
+    this.files.set(filePath, contents);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const contents = this.files.get(path.resolve(filePath));
+    if (contents === undefined) {
+      throw storageError("ENOENT", `no such file, open '${filePath}'`);
+    }
+    return contents;
+  }
+
+  async writeFile(filePath: string, contents: string, options: { exclusive?: boolean } = {}): Promise<void> {
+    const resolved = path.resolve(filePath);
+    if (options.exclusive && this.files.has(resolved)) {
+      throw storageError("EEXIST", `file already exists, open '${filePath}'`);
+    }
+    this.put(resolved, contents);
+  }
+
+  async appendFile(filePath: string, contents: string): Promise<void> {
+    const resolved = path.resolve(filePath);
+    this.put(resolved, (this.files.get(resolved) ?? "") + contents);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const contents = await this.readFile(from);
+    this.put(path.resolve(to), contents);
+    this.files.delete(path.resolve(from));
+  }
+
+  async remove(filePath: string): Promise<void> {
+    this.files.delete(path.resolve(filePath));
+  }
+
+  async stat(filePath: string): Promise<StorageEntryKind | null> {
+    const resolved = path.resolve(filePath);
+    if (this.files.has(resolved)) {
+      return "file";
+    }
+    return this.directories.has(resolved) ? "directory" : null;
+  }
+
+  async readDir(directory: string): Promise<StorageEntry[]> {
+    const resolved = path.resolve(directory);
+    const entries: StorageEntry[] = [];
+    for (const candidate of this.directories) {
+      if (candidate !== resolved && path.dirname(candidate) === resolved) {
+        entries.push({ name: path.basename(candidate), kind: "directory" });
+      }
+    }
+    for (const candidate of this.files.keys()) {
+      if (path.dirname(candidate) === resolved) {
+        entries.push({ name: path.basename(candidate), kind: "file" });
+      }
+    }
+    return entries.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async mkdir(directory: string): Promise<void> {
+    const resolved = path.resolve(directory);
+    if (this.files.has(resolved)) {
+      throw storageError("EEXIST", `${directory} is a file`);
+    }
+    this.addDirectory(resolved);
+  }
+}
@@ -0,0 +1,220 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryStorage } from "./storage.js";
+import { INTENT_FILENAME, WorkNodeTransaction, readWorkNodeIntent, recoverWorkNodeTransaction } from "./transaction.js";
+import type { WorkNodeIntent } from "./transaction.js";
+import { WorkNode, collectWorkNodeFindings } from "./work-node.js";
+
+const ROOT = "/tree/api";
+const INTENT = `${ROOT}/${INTENT_FILENAME}`;
+const CONTEXT = { owner: "agent", command: "run" };
+const STEPS = [{ phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] }];
+
+/** Fails every write to `failPath` once `armed` is set. */
+class FailingStorage extends MemoryStorage {
+  armed = false;
+
+  constructor(private readonly failPath: string) {
+    super();
+  }
+
+  override async writeFile(filePath: string, contents: string, options?: { exclusive?: boolean }): Promise<void> {
+    if (this.armed && filePath === this.failPath) {
+      throw new Error(`disk full writing ${filePath}`);
+    }
+    await super.writeFile(filePath, contents, options);
+  }
+}
+
+/** Remembers every intent written through it and every file it rewrote. */
+class RecordingStorage extends MemoryStorage {
+  readonly intents: WorkNodeIntent[] = [];
+  readonly rewritten: string[] = [];
+
+  override async writeFile(filePath: string, contents: string, options?: { exclusive?: boolean }): Promise<void> {
+    if (filePath === INTENT) {
+      this.intents.push(JSON.parse(contents) as WorkNodeIntent);
+    }
+    this.rewritten.push(filePath);
+    await super.writeFile(filePath, contents, options);
+  }
+}
+
+/** An intent left behind by a process on another host that died a while ago. */
+function abandonedIntent(state: WorkNodeIntent["state"]): string {
+  const intent: WorkNodeIntent = {
+    version: 1,
+    owner: "agent",
+    command: "run",
+    pid: 1,
+    host: "elsewhere.invalid",
+    createdAt: "2026-01-01T00:00:00.000Z",
+    state,
+    files: [
+      { path: "STATE.md", before: "old state\n", after: "new state\n" },
+      { path: "logs/p1-s1.1.md", before: null, after: "new log\n" }
+    ]
+  };
+  return JSON.stringify(intent);
+}
+
+async function createNode(): Promise<{ node: WorkNode; storage: MemoryStorage }> {
+  const storage = new MemoryStorage();
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+  return { node, storage };
+}
+
+test("commit writes every staged file and removes the intent", async () => {
+  const { node, storage } = await createNode();
+  const transaction = new WorkNodeTransaction(node.layout, storage, CONTEXT);
+  await transaction.writeFile(`${ROOT}/STATE.md`, "staged state\n");
+  await transaction.writeFile(`${ROOT}/notes.md`, "staged note\n");
+
+  assert.equal(await transaction.readFile(`${ROOT}/notes.md`), "staged note\n");
+  assert.equal(storage.snapshot()[`${ROOT}/notes.md`], undefined);
+  assert.deepEqual(await transaction.commit(), ["STATE.md", "notes.md"]);
+
+  const files = storage.snapshot();
+  assert.equal(files[`${ROOT}/STATE.md`], "staged state\n");
+  assert.equal(files[`${ROOT}/notes.md`], "staged note\n");
+  assert.equal(files[INTENT], undefined);
+});
+
+test("a failed write restores the files already written", async () => {
+  const storage = new FailingStorage(`${ROOT}/b.md`);
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+  const before = storage.snapshot();
+  const transaction = new WorkNodeTransaction(node.layout, storage, CONTEXT);
+  await transaction.writeFile(`${ROOT}/STATE.md`, "staged state\n");
+  await transaction.writeFile(`${ROOT}/b.md`, "staged b\n");
+
+  storage.armed = true;
+  await assert.rejects(transaction.commit(), /disk full/);
+  assert.deepEqual(storage.snapshot(), before);
+});
+
+test("recovery rolls an abandoned prepared intent back", async () => {
+  const { node, storage } = await createNode();
+  await storage.writeFile(`${ROOT}/STATE.md`, "new state\n");
+  await storage.writeFile(INTENT, abandonedIntent("prepared"));
+
+  assert.equal((await recoverWorkNodeTransaction(node.layout, storage))?.action, "rolled-back");
+  const files = storage.snapshot();
+  assert.equal(files[`${ROOT}/STATE.md`], "old state\n");
+  assert.equal(files[`${ROOT}/logs/p1-s1.1.md`], undefined);
+  assert.equal(files[INTENT], undefined);
+});
+
+test("recovery rolls an abandoned committed intent forward", async () => {
+  const { node, storage } = await createNode();
+  await storage.writeFile(`${ROOT}/STATE.md`, "old state\n");
+  await storage.writeFile(INTENT, abandonedIntent("committed"));
+
+  assert.equal((await recoverWorkNodeTransaction(node.layout, storage))?.action, "rolled-forward");
+  const files = storage.snapshot();
+  assert.equal(files[`${ROOT}/STATE.md`], "new state\n");
+  assert.equal(files[`${ROOT}/logs/p1-s1.1.md`], "new log\n");
+  assert.equal(files[INTENT], undefined);
+});
+
+test("recovery refuses a file that was edited after the crash", async () => {
+  const { node, storage } = await createNode();
+  await storage.writeFile(INTENT, abandonedIntent("prepared"));
+
+  await assert.rejects(recoverWorkNodeTransaction(node.layout, storage), /STATE\.md was changed since/);
+  assert.notEqual(await readWorkNodeIntent(node.layout, storage), null);
+});
+
+test("only writing loads recover; audits report the pending intent", async () => {
+  const { storage } = await createNode();
+  const state = await storage.readFile(`${ROOT}/STATE.md`);
+  const intent = JSON.parse(abandonedIntent("prepared")) as WorkNodeIntent;
+  intent.files = [{ path: "STATE.md", before: state, after: state.replace("| todo |", "| in-progress |") }];
+  await storage.writeFile(`${ROOT}/STATE.md`, intent.files[0].after ?? "");
+  await storage.writeFile(INTENT, JSON.stringify(intent));
+
+  await WorkNode.load(ROOT, storage);
+  assert.ok(storage.snapshot()[INTENT]);
+  const findings = await collectWorkNodeFindings(ROOT, storage);
+  const pending = findings.find((finding) => finding.ruleId === "pending-transaction");
+  assert.match(pending?.message ?? "", /run by agent from 2026-01-01T00:00:00\.000Z was interrupted/);
+
+  const node = await WorkNode.loadForUpdate(ROOT, storage);
+  assert.equal(node.state.findById("1.1")?.status, "todo");
+  assert.equal(storage.snapshot()[INTENT], undefined);
+});
+
+test("a file that was only appended to is recorded by its old length", async () => {
+  const storage = new RecordingStorage();
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+  const journal = `${ROOT}/events.jsonl`;
+  const existing = await storage.readFile(journal);
+  const transaction = new WorkNodeTransaction(node.layout, storage, CONTEXT);
+  await transaction.writeFile(journal, `${existing}{"appended":true}\n`);
+  await transaction.commit();
+
+  assert.deepEqual(storage.intents[0].files, []);
+  assert.deepEqual(storage.intents[0].appends, [
+    { path: "events.jsonl", length: existing.length, appended: '{"appended":true}\n' }
+  ]);
+  assert.equal(await storage.readFile(journal), `${existing}{"appended":true}\n`);
+});
+
+test("staged appends reach the file as appends, not rewrites", async () => {
+  const storage = new RecordingStorage();
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+  const journal = `${ROOT}/events.jsonl`;
+  const existing = await storage.readFile(journal);
+  const transaction = new WorkNodeTransaction(node.layout, storage, CONTEXT);
+  await transaction.appendFile(journal, "one\n");
+  await transaction.appendFile(journal, "two\n");
+
+  assert.equal(await transaction.readFile(journal), `${existing}one\ntwo\n`);
+  storage.rewritten.length = 0;
+  assert.deepEqual(await transaction.commit(), ["events.jsonl"]);
+  assert.deepEqual(storage.intents[0].appends, [{ path: "events.jsonl", length: existing.length, appended: "one\ntwo\n" }]);
+  assert.deepEqual(storage.rewritten.filter((filePath) => filePath !== INTENT), []);
+  assert.equal(await storage.readFile(journal), `${existing}one\ntwo\n`);
+});
+
+test("recovery truncates or completes an interrupted append", async () => {
+  for (const [state, expected] of [["prepared", "old\n"], ["committed", "old\nnew\n"]] as const) {
+    const { node, storage } = await createNode();
+    const intent = JSON.parse(abandonedIntent(state)) as WorkNodeIntent;
+    intent.files = [];
+    intent.appends = [{ path: "events.jsonl", length: 4, appended: "new\n" }];
+    await storage.writeFile(`${ROOT}/events.jsonl`, "old\nne");
+    await storage.writeFile(INTENT, JSON.stringify(intent));
+
+    await recoverWorkNodeTransaction(node.layout, storage);
+    assert.equal(await storage.readFile(`${ROOT}/events.jsonl`), expected);
+  }
+});
+
+test("commit refuses to replace another operation's intent", async () => {
+  const { node, storage } = await createNode();
+  await storage.writeFile(INTENT, abandonedIntent("prepared"));
+  const transaction = new WorkNodeTransaction(node.layout, storage, CONTEXT);
+  await transaction.writeFile(`${ROOT}/STATE.md`, "staged state\n");
+
+  await assert.rejects(transaction.commit(), /another operation has not finished/);
+  assert.equal(JSON.parse(storage.snapshot()[INTENT]).host, "elsewhere.invalid");
+  assert.notEqual(storage.snapshot()[`${ROOT}/STATE.md`], "staged state\n");
+});
+
+test("a failed transaction puts the node's plan and state back", async () => {
+  const { node } = await createNode();
+
+  await assert.rejects(
+    node.transaction(async () => {
+      const row = node.state.findById("1.1");
+      assert.ok(row);
+      row.status = "blocked";
+      node.plan.steps.pop();
+      throw new Error("refused");
+    }),
+    /refused/
+  );
+  assert.equal(node.state.findById("1.1")?.status, "todo");
+  assert.equal(node.plan.steps.length, 1);
+});
@@ -0,0 +1,423 @@
+import os from "node:os";
+import path from "node:path";
+import { fileSystemStorage } from "./storage.js";
+import type { StorageEntry, StorageEntryKind, WorkNodeStorage } from "./storage.js";
+import type { WorkNodeLayout } from "./work-node.js";
+
+export const INTENT_FILENAME = ".worktree.intent.json";
+
+/** Intents from another host are presumed abandoned once they are this old. */
+export const INTENT_STALE_SECONDS = 60;
+
+/**
+ * `prepared` while the files are being written; `committed` once all of them were.
+ * Recovery rolls a prepared intent back and a committed one forward.
+ */
+export type IntentState = "prepared" | "committed";
+
+export interface FileIntent {
+  /** Node-relative path. */
+  path: string;
+  /** Contents before the operation; null when the file did not exist. */
+  before: string | null;
+  /** Contents after the operation; null when the operation removes the file. */
+  after: string | null;
+}
+
+/**
+ * A file the operation only appended to, such as the events.jsonl journal. Only its
+ * length before the operation is recorded, so recovery truncates back to it or keeps
+ * the appended text without the intent holding the whole file.
+ */
+export interface AppendIntent {
+  /** Node-relative path. */
+  path: string;
+  /** Length of the contents before the operation, in characters. */
+  length: number;
+  appended: string;
+}
+
+export interface WorkNodeIntent {
+  version: 1;
+  owner: string;
+  command: string;
+  pid: number;
+  host: string;
+  createdAt: string;
+  state: IntentState;
+  files: FileIntent[];
+  appends?: AppendIntent[];
+}
+
+export interface TransactionContext {
+  owner: string;
+  command: string;
+}
+
+export interface TransactionRecovery {
+  action: "rolled-back" | "rolled-forward";
+  intent: WorkNodeIntent;
+}
+
+/** Intent files of the transactions this process is committing right now. */
+const activeIntents = new Set<string>();
+
+export function intentPath(layout: WorkNodeLayout): string {
+  return path.join(layout.root, INTENT_FILENAME);
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+async function readOptional(storage: WorkNodeStorage, filePath: string): Promise<string | null> {
+  try {
+    return await storage.readFile(filePath);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeOrRemove(storage: WorkNodeStorage, filePath: string, contents: string | null): Promise<void> {
+  if (contents === null) {
+    await storage.remove(filePath);
+  } else {
+    await storage.writeFile(filePath, contents);
+  }
+}
+
+/** The appended text found after `file.length`, or null when the file no longer fits the intent. */
+function appendedTail(current: string | null, file: AppendIntent): string | null {
+  const tail = (current ?? "").slice(file.length);
+  return (current ?? "").length >= file.length && file.appended.startsWith(tail) ? tail : null;
+}
+
+/** Truncates an appended file back to its recorded length, or completes the append. */
+async function settleAppend(storage: WorkNodeStorage, root: string, file: AppendIntent, forward: boolean): Promise<void> {
+  const absolute = path.join(root, file.path);
+  const current = (await readOptional(storage, absolute)) ?? "";
+  const target = current.slice(0, file.length) + (forward ? file.appended : "");
+  if (current !== target) {
+    await storage.writeFile(absolute, target);
+  }
+}
+
+function parseIntent(contents: string, filePath: string): WorkNodeIntent {
+  let parsed: Partial<WorkNodeIntent>;
+  try {
+    parsed = JSON.parse(contents) as Partial<WorkNodeIntent>;
+  } catch {
+    throw new Error(`intent file ${filePath} is not valid JSON`);
+  }
+  const validFile = (file: FileIntent): boolean =>
+    Boolean(file) &&
+    typeof file.path === "string" &&
+    (file.before === null || typeof file.before === "string") &&
+    (file.after === null || typeof file.after === "string");
+  const validAppend = (file: AppendIntent): boolean =>
+    Boolean(file) && typeof file.path === "string" && Number.isInteger(file.length) && typeof file.appended === "string";
+  if (
+    parsed.version !== 1 ||
+    (parsed.state !== "prepared" && parsed.state !== "committed") ||
+    typeof parsed.pid !== "number" ||
+    typeof parsed.host !== "string" ||
+    typeof parsed.createdAt !== "string" ||
+    !Array.isArray(parsed.files) ||
+    !parsed.files.every(validFile) ||
+    (parsed.appends !== undefined && (!Array.isArray(parsed.appends) || !parsed.appends.every(validAppend)))
+  ) {
+    throw new Error(
+      `intent file ${filePath} is missing or has an invalid version, state, pid, host, createdAt, files, or appends`
+    );
+  }
+  return parsed as WorkNodeIntent;
+}
+
+export async function readWorkNodeIntent(
+  layout: WorkNodeLayout,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeIntent | null> {
+  const filePath = intentPath(layout);
+  const contents = await readOptional(storage, filePath);
+  return contents === null ? null : parseIntent(contents, filePath);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * True when nobody is still committing the intent: its process exited (same host), or it
+ * is older than INTENT_STALE_SECONDS (another host).
+ */
+export function isIntentAbandoned(layout: WorkNodeLayout, intent: WorkNodeIntent, now: Date = new Date()): boolean {
+  if (intent.host !== os.hostname()) {
+    const createdAt = Date.parse(intent.createdAt);
+    return Number.isNaN(createdAt) || now.getTime() - createdAt >= INTENT_STALE_SECONDS * 1000;
+  }
+  if (intent.pid === process.pid) {
+    return !activeIntents.has(intentPath(layout));
+  }
+  return !isProcessAlive(intent.pid);
+}
+
+/**
+ * Finishes an operation that was interrupted while committing: a `prepared` intent is
+ * rolled back to the `before` contents, a `committed` one forward to the `after`
+ * contents; appended files are truncated or have their append completed. Refuses when a
+ * file matches neither, since it was edited after the crash.
+ * Returns null when there is no intent or its operation is still running.
+ */
+export async function recoverWorkNodeTransaction(
+  layout: WorkNodeLayout,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<TransactionRecovery | null> {
+  const intent = await readWorkNodeIntent(layout, storage);
+  if (!intent || !isIntentAbandoned(layout, intent)) {
+    return null;
+  }
+  const forward = intent.state === "committed";
+  const direction = forward ? "rolled forward" : "rolled back";
+  const appends = intent.appends ?? [];
+  const changed = (file: { path: string }): Error =>
+    new Error(
+      `unfinished ${intent.command} from ${intent.createdAt} cannot be ${direction}: ${file.path} was changed since; ` +
+        `restore it or remove ${INTENT_FILENAME} by hand`
+    );
+  for (const file of intent.files) {
+    const current = await readOptional(storage, path.join(layout.root, file.path));
+    if (current !== file.before && current !== file.after) {
+      throw changed(file);
+    }
+  }
+  for (const file of appends) {
+    if (appendedTail(await readOptional(storage, path.join(layout.root, file.path)), file) === null) {
+      throw changed(file);
+    }
+  }
+  for (const file of intent.files) {
+    await writeOrRemove(storage, path.join(layout.root, file.path), forward ? file.after : file.before);
+  }
+  for (const file of appends) {
+    await settleAppend(storage, layout.root, file, forward);
+  }
+  await storage.remove(intentPath(layout));
+  return { action: forward ? "rolled-forward" : "rolled-back", intent };
+}
+
+/**
+ * Stages the file changes of one operation on a node and writes them together. Reads see
+ * the staged contents; nothing reaches `base` until `commit`, which records a write-ahead
+ * intent in `NODE_ROOT/.worktree.intent.json` so a crash part way through can be
+ * recovered by `recoverWorkNodeTransaction`. Directories are created immediately.
+ * Appends to files that are not otherwise staged are kept apart and committed as appends.
+ */
+export class WorkNodeTransaction implements WorkNodeStorage {
+  /** Staged contents by absolute path; null stages a removal. */
+  private readonly staged = new Map<string, string | null>();
+  /** Text staged to be appended, by absolute path, for files not in `staged`. */
+  private readonly appended = new Map<string, string>();
+
+  constructor(
+    readonly layout: WorkNodeLayout,
+    readonly base: WorkNodeStorage,
+    private readonly context: TransactionContext
+  ) {}
+
+  async readFile(filePath: string): Promise<string> {
+    const resolved = path.resolve(filePath);
+    const appended = this.appended.get(resolved);
+    if (appended !== undefined) {
+      return `${(await readOptional(this.base, resolved)) ?? ""}${appended}`;
+    }
+    if (!this.staged.has(resolved)) {
+      return this.base.readFile(resolved);
+    }
+    const contents = this.staged.get(resolved);
+    if (contents === null || contents === undefined) {
+      const error: NodeJS.ErrnoException = new Error(`ENOENT: no such file, open '${filePath}'`);
+      error.code = "ENOENT";
+      throw error;
+    }
+    return contents;
+  }
+
+  async writeFile(filePath: string, contents: string, options: { exclusive?: boolean } = {}): Promise<void> {
+    const resolved = path.resolve(filePath);
+    if (options.exclusive && (await this.stat(resolved)) !== null) {
+      const error: NodeJS.ErrnoException = new Error(`EEXIST: file already exists, open '${filePath}'`);
+      error.code = "EEXIST";
+      throw error;
+    }
+    this.stage(resolved, contents);
+  }
+
+  async appendFile(filePath: string, contents: string): Promise<void> {
+    const resolved = path.resolve(filePath);
+    if (this.staged.has(resolved)) {
+      this.staged.set(resolved, `${this.staged.get(resolved) ?? ""}${contents}`);
+    } else {
+      this.appended.set(resolved, `${this.appended.get(resolved) ?? ""}${contents}`);
+    }
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    const contents = await this.readFile(from);
+    this.stage(path.resolve(to), contents);
+    this.stage(path.resolve(from), null);
+  }
+
+  async remove(filePath: string): Promise<void> {
+    this.stage(path.resolve(filePath), null);
+  }
+
+  private stage(resolved: string, contents: string | null): void {
+    this.appended.delete(resolved);
+    this.staged.set(resolved, contents);
+  }
+
+  async stat(filePath: string): Promise<StorageEntryKind | null> {
+    const resolved = path.resolve(filePath);
+    if (this.appended.has(resolved)) {
+      return "file";
+    }
+    if (this.staged.has(resolved)) {
+      return this.staged.get(resolved) === null ? null : "file";
+    }
+    return this.base.stat(resolved);
+  }
+
+  async readDir(directory: string): Promise<StorageEntry[]> {
+    const resolved = path.resolve(directory);
+    const entries = new Map((await this.base.readDir(resolved)).map((entry) => [entry.name, entry]));
+    for (const filePath of this.appended.keys()) {
+      if (path.dirname(filePath) === resolved) {
+        entries.set(path.basename(filePath), { name: path.basename(filePath), kind: "file" });
+      }
+    }
+    for (const [filePath, contents] of this.staged) {
+      if (path.dirname(filePath) !== resolved) {
+        continue;
+      }
+      if (contents === null) {
+        entries.delete(path.basename(filePath));
+      } else {
+        entries.set(path.basename(filePath), { name: path.basename(filePath), kind: "file" });
+      }
+    }
+    return [...entries.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async mkdir(directory: string): Promise<void> {
+    await this.base.mkdir(directory);
+  }
+
+  /**
+   * Writes the staged changes: records a `prepared` intent with the old and new contents
+   * of every changed file (only the old length of files that were appended to), writes
+   * the files and the appends, marks the intent `committed`, and removes it. If a write fails, the files
+   * already written are restored before the error is rethrown; if restoring fails as
+   * well, the prepared intent stays for the next write to roll back. Returns the
+   * node-relative paths that changed.
+   */
+  async commit(): Promise<string[]> {
+    const files: FileIntent[] = [];
+    const appends: AppendIntent[] = [];
+    const changed: string[] = [];
+    for (const [filePath, after] of this.staged) {
+      const before = await readOptional(this.base, filePath);
+      const relative = path.relative(this.layout.root, filePath).split(path.sep).join("/");
+      if (before !== null && after !== null && after.length > before.length && after.startsWith(before)) {
+        appends.push({ path: relative, length: before.length, appended: after.slice(before.length) });
+        changed.push(relative);
+      } else if (before !== after) {
+        files.push({ path: relative, before, after });
+        changed.push(relative);
+      }
+    }
+    for (const [filePath, text] of this.appended) {
+      if (!text) {
+        continue;
+      }
+      const before = await readOptional(this.base, filePath);
+      const relative = path.relative(this.layout.root, filePath).split(path.sep).join("/");
+      if (before === null) {
+        files.push({ path: relative, before, after: text });
+      } else {
+        appends.push({ path: relative, length: before.length, appended: text });
+      }
+      changed.push(relative);
+    }
+    this.staged.clear();
+    this.appended.clear();
+    if (!changed.length) {
+      return [];
+    }
+
+    const filePath = intentPath(this.layout);
+    const intent: WorkNodeIntent = {
+      version: 1,
+      owner: this.context.owner,
+      command: this.context.command,
+      pid: process.pid,
+      host: os.hostname(),
+      createdAt: new Date().toISOString(),
+      state: "prepared",
+      files,
+      ...(appends.length ? { appends } : {})
+    };
+    try {
+      await this.base.writeFile(filePath, `${JSON.stringify(intent, null, 2)}\n`, { exclusive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+        throw new Error(`${INTENT_FILENAME} exists under ${this.layout.root}: another operation has not finished`);
+      }
+      throw error;
+    }
+    activeIntents.add(filePath);
+    try {
+      const written: FileIntent[] = [];
+      const appended: AppendIntent[] = [];
+      try {
+        for (const file of files) {
+          written.push(file);
+          await writeOrRemove(this.base, path.join(this.layout.root, file.path), file.after);
+        }
+        for (const file of appends) {
+          appended.push(file);
+          await this.base.appendFile(path.join(this.layout.root, file.path), file.appended);
+        }
+      } catch (error) {
+        // Left in place when restoring fails too, so the next write rolls the node back.
+        for (const file of appended.reverse()) {
+          await settleAppend(this.base, this.layout.root, file, false);
+        }
+        await this.restore(written.reverse());
+        await this.base.remove(filePath);
+        throw error;
+      }
+      await this.base.writeFile(filePath, `${JSON.stringify({ ...intent, state: "committed" }, null, 2)}\n`);
+      await this.base.remove(filePath);
+    } finally {
+      activeIntents.delete(filePath);
+    }
+    return changed;
+  }
+
+  private async restore(files: FileIntent[]): Promise<void> {
+    for (const file of files) {
+      const absolute = path.join(this.layout.root, file.path);
+      if ((await readOptional(this.base, absolute)) !== file.before) {
+        await writeOrRemove(this.base, absolute, file.before);
+      }
+    }
+  }
+}
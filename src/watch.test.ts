@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { setTimeout as delay } from "node:timers/promises";
+import { test } from "node:test";
+import { FileSystemStorage, atomicWriteFile } from "./storage.js";
+import type { StorageEntry } from "./storage.js";
+import { watchWorkNodes } from "./watch.js";
+import type { WorkNodeWatchEvent } from "./watch.js";
+import { WorkNode } from "./work-node.js";
+
+const STEPS = [{ phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] }];
+
+/** Slow directory listings, so that each scan is still running when the next one is due. */
+class SlowStorage extends FileSystemStorage {
+  override async readDir(directory: string): Promise<StorageEntry[]> {
+    await delay(20);
+    return super.readDir(directory);
+  }
+}
+
+test("discovers a new node once and reports one status change for an atomic rewrite", async (t) => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), "worktree-watch-"));
+  t.after(() => fs.rm(root, { recursive: true, force: true }));
+  const nodeRoot = path.join(root, "api");
+  const events: WorkNodeWatchEvent[] = [];
+  // Rescans far more often than a scan takes, so overlapping scans would track the new node twice.
+  const watcher = await watchWorkNodes(root, (event) => events.push(event), {
+    debounceMs: 20,
+    rescanIntervalMs: 5,
+    storage: new SlowStorage()
+  });
+  t.after(() => watcher.close());
+  await WorkNode.initialize(nodeRoot, STEPS);
+  await delay(300);
+
+  const statePath = path.join(nodeRoot, "STATE.md");
+  const state = await fs.readFile(statePath, "utf8");
+  await atomicWriteFile(statePath, state.replace("| Write the parser | todo |", "| Write the parser | blocked |"));
+  await delay(500);
+
+  assert.deepEqual(
+    events.filter((event) => event.type === "node-discovered" || event.type === "step-status-changed").map((event) => event.type),
+    ["node-discovered", "step-status-changed"]
+  );
+  const [changed] = events.filter((event) => event.type === "step-status-changed");
+  assert.deepEqual(changed.type === "step-status-changed" && [changed.step, changed.from, changed.to], ["1.1", "todo", "blocked"]);
+  assert.deepEqual(watcher.nodes, [nodeRoot]);
+});
@@ -0,0 +1,239 @@
+import { watch as watchPath } from "node:fs";
+import type { FSWatcher } from "node:fs";
+import path from "node:path";
+import { fileSystemStorage } from "./storage.js";
+import type { WorkNodeStorage } from "./storage.js";
+import { discoverWorkNodes, ensurePlanStateConsistency, parsePlan, parseState } from "./work-node.js";
+import type { StepStatus, WorkNodeLayout, WorkState } from "./work-node.js";
+
+interface WatchEventBase {
+  /** Absolute root of the WorkNode the event belongs to. */
+  node: string;
+  at: string;
+}
+
+export type WorkNodeWatchEvent =
+  | (WatchEventBase & { type: "node-discovered"; steps: number })
+  | (WatchEventBase & { type: "step-added"; step: string; label: string; status: StepStatus })
+  | (WatchEventBase & { type: "step-status-changed"; step: string; label: string; from: StepStatus; to: StepStatus })
+  | (WatchEventBase & { type: "log-updated"; step: string | null; logPath: string })
+  | (WatchEventBase & { type: "validation-error"; message: string });
+
+export interface WatchOptions {
+  /** Quiet period before a burst of file events is re-parsed (default 100 ms). */
+  debounceMs?: number;
+  /** How often the tree is re-scanned for new WorkNodes (default 2000 ms). */
+  rescanIntervalMs?: number;
+  signal?: AbortSignal;
+  /** Backend the files are read through; change notifications still come from the file system. */
+  storage?: WorkNodeStorage;
+}
+
+export interface WorkNodeWatcher {
+  /** Roots of the WorkNodes currently being watched. */
+  readonly nodes: string[];
+  close(): void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 100;
+const DEFAULT_RESCAN_INTERVAL_MS = 2000;
+const LOG_NAME_REGEX = /^p\d+-s([0-9]+(?:\.[0-9]+)*)\.md$/;
+
+interface WatchedNode {
+  layout: WorkNodeLayout;
+  watchers: FSWatcher[];
+  /** Last STATE that parsed and matched PLAN; changes are reported against it. */
+  state: WorkState | null;
+  logs: Map<string, string>;
+  lastError: string | null;
+  pendingLogs: Set<string>;
+  timer: NodeJS.Timeout | null;
+}
+
+async function readLogs(logsDir: string, storage: WorkNodeStorage): Promise<Map<string, string>> {
+  const logs = new Map<string, string>();
+  for (const { name } of await storage.readDir(logsDir)) {
+    if (LOG_NAME_REGEX.test(name)) {
+      logs.set(name, await storage.readFile(path.join(logsDir, name)).catch(() => ""));
+    }
+  }
+  return logs;
+}
+
+/**
+ * Watches PLAN.md, STATE.md, and logs/ of every WorkNode under `root` and reports changes
+ * as typed events. Bursts of file events (such as the temp-file write and rename done by
+ * `atomicWriteFile`) are debounced per node and compared against the last parsed snapshot,
+ * so each logical change is reported once. Nodes created later are picked up by a
+ * periodic re-scan.
+ */
+export async function watchWorkNodes(
+  root: string,
+  listener: (event: WorkNodeWatchEvent) => void,
+  options: WatchOptions = {}
+): Promise<WorkNodeWatcher> {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const storage = options.storage ?? fileSystemStorage;
+  const watched = new Map<string, WatchedNode>();
+  let closed = false;
+
+  const emit = (event: WorkNodeWatchEvent): void => {
+    if (!closed) {
+      listener(event);
+    }
+  };
+  const now = (): string => new Date().toISOString();
+
+  const refresh = async (entry: WatchedNode): Promise<void> => {
+    const node = entry.layout.root;
+    let state: WorkState | null = null;
+    try {
+      const plan = await parsePlan(entry.layout.planPath, storage);
+      state = await parseState(entry.layout.statePath, storage);
+      ensurePlanStateConsistency(plan, state);
+      entry.lastError = null;
+    } catch (error) {
+      state = null;
+      const message = (error as Error).message;
+      if (message !== entry.lastError) {
+        entry.lastError = message;
+        emit({ type: "validation-error", node, at: now(), message });
+      }
+    }
+
+    if (state && entry.state) {
+      for (const row of state.entries) {
+        const previous = entry.state.find(row.phase, row.step);
+        if (!previous) {
+          emit({ type: "step-added", node, at: now(), step: row.step, label: row.label, status: row.status });
+        } else if (previous.status !== row.status) {
+          emit({
+            type: "step-status-changed",
+            node,
+            at: now(),
+            step: row.step,
+            label: row.label,
+            from: previous.status,
+            to: row.status
+          });
+        }
+      }
+    }
+    if (state) {
+      entry.state = state;
+    }
+
+    const pending = [...entry.pendingLogs].sort();
+    entry.pendingLogs.clear();
+    for (const name of pending) {
+      const contents = await storage.readFile(path.join(entry.layout.logsDir, name)).catch(() => null);
+      if (contents === null || contents === entry.logs.get(name)) {
+        continue;
+      }
+      entry.logs.set(name, contents);
+      emit({
+        type: "log-updated",
+        node,
+        at: now(),
+        step: LOG_NAME_REGEX.exec(name)?.[1] ?? null,
+        logPath: `logs/${name}`
+      });
+    }
+  };
+
+  const schedule = (entry: WatchedNode): void => {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => {
+      entry.timer = null;
+      refresh(entry).catch((error) =>
+        emit({ type: "validation-error", node: entry.layout.root, at: now(), message: (error as Error).message })
+      );
+    }, debounceMs);
+  };
+
+  const forget = (root: string): void => {
+    const entry = watched.get(root);
+    if (!entry) {
+      return;
+    }
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+    entry.watchers.forEach((watcher) => watcher.close());
+    watched.delete(root);
+  };
+
+  const track = async (layout: WorkNodeLayout): Promise<void> => {
+    const logs = await readLogs(layout.logsDir, storage);
+    if (closed) {
+      return;
+    }
+    const entry: WatchedNode = {
+      layout,
+      watchers: [],
+      state: null,
+      logs,
+      lastError: null,
+      pendingLogs: new Set(),
+      timer: null
+    };
+    watched.set(layout.root, entry);
+    const onError = (): void => forget(layout.root);
+    const rootWatcher = watchPath(layout.root, (_, filename) => {
+      if (filename === "PLAN.md" || filename === "STATE.md") {
+        schedule(entry);
+      }
+    });
+    const logsWatcher = watchPath(layout.logsDir, (_, filename) => {
+      if (filename && LOG_NAME_REGEX.test(filename.toString())) {
+        entry.pendingLogs.add(filename.toString());
+        schedule(entry);
+      }
+    });
+    rootWatcher.on("error", onError);
+    logsWatcher.on("error", onError);
+    entry.watchers.push(rootWatcher, logsWatcher);
+    const steps = await parseState(layout.statePath, storage).then((state) => state.entries.length, () => 0);
+    emit({ type: "node-discovered", node: layout.root, at: now(), steps });
+    await refresh(entry);
+  };
+
+  const scan = async (): Promise<void> => {
+    for (const layout of await discoverWorkNodes(root, storage)) {
+      if (!closed && !watched.has(layout.root)) {
+        await track(layout).catch(() => forget(layout.root));
+      }
+    }
+  };
+
+  // A slow scan must not overlap the next tick, or both would track the same new node.
+  let scanning: Promise<void> | null = null;
+  const rescanOnce = (): Promise<void> => {
+    scanning ??= scan().finally(() => {
+      scanning = null;
+    });
+    return scanning;
+  };
+
+  await rescanOnce();
+  const rescan = setInterval(() => {
+    rescanOnce().catch(() => {});
+  }, options.rescanIntervalMs ?? DEFAULT_RESCAN_INTERVAL_MS);
+
+  const watcher: WorkNodeWatcher = {
+    get nodes() {
+      return [...watched.keys()].sort();
+    },
+    close() {
+      closed = true;
+      clearInterval(rescan);
+      for (const node of [...watched.keys()]) {
+        forget(node);
+      }
+    }
+  };
+  options.signal?.addEventListener("abort", () => watcher.close(), { once: true });
+  return watcher;
+}
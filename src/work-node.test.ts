@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MemoryStorage } from "./storage.js";
+import { WorkNode } from "./work-node.js";
+
+const ROOT = "/tree/api";
+const STEPS = [
+  { phase: 1, step: "1.1", label: "Write the parser", details: ["Parse the input."] },
+  { phase: 1, step: "1.2", label: "Write the printer", details: ["Print the output."] }
+];
+
+async function createNode(): Promise<{ node: WorkNode; storage: MemoryStorage }> {
+  const storage = new MemoryStorage();
+  const node = await WorkNode.initialize(ROOT, STEPS, storage);
+  return { node, storage };
+}
+
+test("unblock returns a step to the status recorded in its log header", async () => {
+  const { node, storage } = await createNode();
+  await node.transitionStep("1.1", "in-progress");
+  await node.transitionStep("1.1", "blocked", { reason: "waiting on review" });
+  // A note that merely looks like a transition must not change where unblock goes.
+  await node.appendNote("Status todo → blocked was what the old tool wrote", "1.1");
+
+  const log = storage.snapshot()[`${ROOT}/logs/p1-s1.1.md`];
+  assert.match(log, /^previous-status: in-progress$/m);
+  await node.unblockStep("1.1");
+  assert.equal(node.state.findById("1.1")?.status, "in-progress");
+});
+
+test("a note whose journal entry cannot be written leaves the log unchanged", async () => {
+  const { node, storage } = await createNode();
+  await node.transitionStep("1.1", "in-progress");
+  const before = storage.snapshot();
+  storage.appendFile = async () => {
+    throw new Error("disk full");
+  };
+
+  await assert.rejects(node.appendNote("Parsed the input", "1.1"), /disk full/);
+  assert.deepEqual(storage.snapshot(), before);
+});
+
+test("unblock sends a step blocked before it started back to todo", async () => {
+  const { node } = await createNode();
+  await node.transitionStep("1.2", "blocked");
+  await node.unblockStep("1.2");
+  assert.equal(node.state.findById("1.2")?.status, "todo");
+});
+
+test("plan add appends the next step of the phase to PLAN.md and STATE.md", async () => {
+  const { node, storage } = await createNode();
+  const entry = await node.addStep({ phase: 1, label: "Add retries", details: ["Retry failed reads."] });
+
+  assert.equal(entry.step, "1.3");
+  assert.equal(node.state.findById("1.3")?.status, "todo");
+  assert.match(
+    await storage.readFile(`${ROOT}/PLAN.md`),
+    /- Step 1\.2: Write the printer\n {2}- Print the output\.\n\n- Step 1\.3: Add retries\n {2}- Retry failed reads\.\n/
+  );
+});
+
+test("plan add keeps a tight step list tight", async () => {
+  const { storage } = await createNode();
+  const plan = await storage.readFile(`${ROOT}/PLAN.md`);
+  await storage.writeFile(`${ROOT}/PLAN.md`, plan.replace("Parse the input.\n\n", "Parse the input.\n"));
+  const node = await WorkNode.load(ROOT, storage);
+  await node.addStep({ phase: 1, label: "Add retries" });
+
+  assert.match(
+    await storage.readFile(`${ROOT}/PLAN.md`),
+    /- Parse the input\.\n- Step 1\.2: Write the printer\n {2}- Print the output\.\n- Step 1\.3: Add retries\n/
+  );
+});
+
+test("plan remove drops a todo step unless another step depends on it", async () => {
+  const { node, storage } = await createNode();
+  await node.addStep({ phase: 1, label: "Add retries", dependsOn: ["1.2"] });
+  await assert.rejects(node.removeStep("1.2"), /depend/);
+
+  await node.removeStep("1.3");
+  assert.equal(node.state.findById("1.3"), undefined);
+  assert.doesNotMatch(await storage.readFile(`${ROOT}/PLAN.md`), /Add retries/);
+  await assert.rejects(node.removeStep("1.9"), /1\.9/);
+});
+
+test("renumber moves the log, rewrites dependencies, and re-sorts STATE.md", async () => {
+  const { node, storage } = await createNode();
+  await node.addStep({ phase: 1, label: "Add retries", dependsOn: ["1.1"] });
+  await node.transitionStep("1.1", "in-progress");
+  await node.transitionStep("1.1", "blocked");
+  await node.renumberStep("1.1", "1.4", { reason: "runs after the printer" });
+
+  assert.deepEqual(node.state.entries.map((row) => row.step), ["1.2", "1.3", "1.4"]);
+  const files = storage.snapshot();
+  assert.match(files[`${ROOT}/STATE.md`], /\| 1\.3 \| Add retries \| todo \| - \|\n\| 1 \| 1\.4 \| Write the parser \| blocked \|/);
+  assert.match(files[`${ROOT}/PLAN.md`], /- Step 1\.4: Write the parser\n/);
+  assert.match(files[`${ROOT}/PLAN.md`], /depends: 1\.4/);
+  assert.equal(files[`${ROOT}/logs/p1-s1.1.md`], undefined);
+  assert.match(files[`${ROOT}/logs/p1-s1.4.md`], /^# Phase 1 – Step 1\.4: Write the parser/);
+  assert.match(files[`${ROOT}/logs/p1-s1.4.md`], /Renumbered from 1\.1 to 1\.4: runs after the printer/);
+  assert.match(files[`${ROOT}/MIGRATIONS.md`], /1\.1/);
+});
+
+test("relabel rewrites PLAN, STATE, and the log title but refuses completed steps", async () => {
+  const { node, storage } = await createNode();
+  await node.transitionStep("1.1", "in-progress");
+  await node.relabelStep("1.1", "Write the lexer");
+
+  const files = storage.snapshot();
+  assert.match(files[`${ROOT}/PLAN.md`], /- Step 1\.1: Write the lexer\n/);
+  assert.match(files[`${ROOT}/STATE.md`], /\| 1\.1 \| Write the lexer \| in-progress \|/);
+  assert.match(files[`${ROOT}/logs/p1-s1.1.md`], /^# Phase 1 – Step 1\.1: Write the lexer/);
+  assert.match(files[`${ROOT}/MIGRATIONS.md`], /Write the lexer/);
+
+  await node.transitionStep("1.1", "done", { force: true });
+  await assert.rejects(node.relabelStep("1.1", "Write the tokenizer"), /completed steps must not be renamed/);
+  await assert.rejects(node.renumberStep("1.1", "1.5"), /must never change/);
+});
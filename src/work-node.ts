@@ -1,8 +1,36 @@
-import { promises as fs, statSync, readFileSync, Dirent } from "node:fs";
 import path from "node:path";
+import { formatNoteTimestamp, StepLog } from "./step-log.js";
+import {
+  assertWorkNodeWritable,
+  defaultLockOwner,
+  defaultLockSession,
+  describeLock,
+  isLockHeldBy,
+  isLockStale,
+  LOCK_FILENAME,
+  lockExpiresAt,
+  lockPath,
+  readWorkNodeLock
+} from "./lock.js";
+import { EVENTS_FILENAME, appendEvents, findJournalDrift, readEvents, recordStateChanges } from "./events.js";
+import type { EventContext } from "./events.js";
+import { recordMigration } from "./migrations.js";
+import { CONFIG_FILENAME, readWorkNodeConfig } from "./node-config.js";
+import type { WorkNodeConfig } from "./node-config.js";
+import { fileSystemStorage } from "./storage.js";
+import type { StorageEntryKind, WorkNodeStorage } from "./storage.js";
+import {
+  INTENT_FILENAME,
+  WorkNodeTransaction,
+  isIntentAbandoned,
+  readWorkNodeIntent,
+  recoverWorkNodeTransaction
+} from "./transaction.js";
 
 export type StepStatus = "todo" | "in-progress" | "blocked" | "done" | "superseded";
 
+export const STEP_STATUSES: readonly StepStatus[] = ["todo", "in-progress", "blocked", "done", "superseded"];
+
 export interface StepIdentifier {
   phase: number;
   step: string;
@@ -11,6 +39,7 @@ export interface StepIdentifier {
 
 export interface PlanStep extends StepIdentifier {
   details?: string[];
+  dependsOn?: string[];
 }
 
 export interface StateRow extends StepIdentifier {
@@ -22,6 +51,8 @@ export interface LogMetadata extends StepIdentifier {
   logPath: string;
   status: StepStatus;
   started: string;
+  completed?: string;
+  document: StepLog;
 }
 
 export interface WorkNodeLayout {
@@ -45,9 +76,29 @@ export class WorkPlan {
     this.steps.push(step);
   }
 
+  remove(phase: number, step: string): PlanStep {
+    const index = this.steps.findIndex((row) => row.phase === phase && row.step === step);
+    if (index === -1) {
+      throw new Error(`step ${step} does not exist in plan`);
+    }
+    return this.steps.splice(index, 1)[0];
+  }
+
   find(phase: number, step: string): PlanStep | undefined {
     return this.steps.find((row) => row.phase === phase && row.step === step);
   }
+
+  /** Returns the next unused `<phase>.<n>` identifier for a top-level step of `phase`. */
+  nextStepId(phase: number): string {
+    let highest = 0;
+    for (const row of this.steps) {
+      const sequence = parseStepSequence(row.step);
+      if (row.phase === phase && sequence.length === 2 && sequence[0] === phase) {
+        highest = Math.max(highest, sequence[1]);
+      }
+    }
+    return `${phase}.${highest + 1}`;
+  }
 }
 
 export class WorkState {
@@ -61,9 +112,30 @@ export class WorkState {
     return this.entries.find((entry) => entry.phase === phase && entry.step === step);
   }
 
+  findById(step: string): StateRow | undefined {
+    return this.entries.find((entry) => entry.step === step);
+  }
+
   listByStatus(status: StepStatus): StateRow[] {
     return this.entries.filter((entry) => entry.status === status);
   }
+
+  /** Inserts a row before the first entry that sorts after it, keeping phases grouped. */
+  add(entry: StateRow): void {
+    if (this.find(entry.phase, entry.step)) {
+      throw new Error(`state entry ${entry.phase}.${entry.step} already exists`);
+    }
+    const index = this.entries.findIndex((row) => compareStepIdentifiers(row, entry) > 0);
+    this.entries.splice(index === -1 ? this.entries.length : index, 0, entry);
+  }
+
+  remove(phase: number, step: string): StateRow {
+    const index = this.entries.findIndex((entry) => entry.phase === phase && entry.step === step);
+    if (index === -1) {
+      throw new Error(`state entry ${phase}.${step} not found`);
+    }
+    return this.entries.splice(index, 1)[0];
+  }
 }
 
 export class WorkNodeSchema {
@@ -71,7 +143,8 @@ export class WorkNodeSchema {
     public layout: WorkNodeLayout,
     public plan: WorkPlan,
     public state: WorkState,
-    public logs: LogMetadata[] = []
+    public logs: LogMetadata[] = [],
+    public storage: WorkNodeStorage = fileSystemStorage
   ) {}
 
   getStepKey(entry: StepIdentifier): string {
@@ -92,7 +165,8 @@ const DEFAULT_INIT_PLAN_STEPS: PlanStep[] = [
   }
 ];
 
-function buildPlanMarkdown(steps: PlanStep[]): string {
+/** Renders PLAN.md for a list of steps, as `init` writes it. */
+export function buildPlanMarkdown(steps: PlanStep[]): string {
   const lines = [
     "# WorkNode PLAN",
     "",
@@ -101,34 +175,194 @@ function buildPlanMarkdown(steps: PlanStep[]): string {
   ];
 
   for (const step of steps) {
-    const prefix = `${step.phase}.`;
-    const identifier = step.step.startsWith(prefix) ? step.step : `${step.phase}.${step.step}`;
-    lines.push(`- Step ${identifier}: ${step.label}`);
-    if (step.details && step.details.length) {
-      for (const detail of step.details) {
-        lines.push(`  - ${detail}`);
-      }
+    lines.push(...buildPlanStepLines(step), "");
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function buildPlanStepLines(step: PlanStep): string[] {
+  const prefix = `${step.phase}.`;
+  const identifier = step.step.startsWith(prefix) ? step.step : `${step.phase}.${step.step}`;
+  const lines = [`- Step ${identifier}: ${step.label}`];
+  if (step.dependsOn && step.dependsOn.length) {
+    lines.push(`  - depends: ${step.dependsOn.join(", ")}`);
+  }
+  for (const detail of step.details ?? []) {
+    lines.push(`  - ${detail}`);
+  }
+  return lines;
+}
+
+const PHASE_HEADING_REGEX = /^#{1,6}\s+Phase\s+(\d+)\b/i;
+
+/** Returns the [start, end) line range of a step declaration and its indented detail lines. */
+function findPlanStepBlock(lines: string[], step: string): [number, number] | null {
+  const start = lines.findIndex((line) => {
+    const match = STEP_DECLARATION_REGEX.exec(line.replace(/\r$/, ""));
+    return match !== null && `${match[1]}.${match[2]}` === step;
+  });
+  if (start === -1) {
+    return null;
+  }
+  let end = start + 1;
+  while (end < lines.length && /^\s+\S/.test(lines[end])) {
+    end += 1;
+  }
+  return [start, end];
+}
+
+/**
+ * Tells whether the declarations of `steps` follow each other directly (a tight list) or
+ * are separated by blank lines; undefined when no two of them are adjacent.
+ */
+function isTightStepList(lines: string[], steps: PlanStep[]): boolean | undefined {
+  for (const step of steps) {
+    const range = findPlanStepBlock(lines, step.step);
+    if (!range) {
+      continue;
+    }
+    let next = range[1];
+    while (next < lines.length && lines[next].trim() === "") {
+      next += 1;
+    }
+    if (next < lines.length && STEP_DECLARATION_REGEX.test(lines[next])) {
+      return next === range[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Inserts a step declaration after the last step of its phase, or at the end of the
+ * matching `## Phase N` section, leaving the rest of PLAN.md untouched. The new step is
+ * separated from its neighbours the way the existing steps are.
+ */
+function insertPlanStep(content: string, plan: WorkPlan, step: PlanStep): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(/\r?\n/);
+  const block = buildPlanStepLines(step);
+
+  const siblings = plan.steps.filter((row) => row.phase === step.phase && row.step !== step.step);
+  let insertAt = -1;
+  for (const sibling of siblings) {
+    const range = findPlanStepBlock(lines, sibling.step);
+    if (range && range[1] > insertAt) {
+      insertAt = range[1];
     }
+  }
+  if (insertAt !== -1 && (isTightStepList(lines, siblings) ?? isTightStepList(lines, plan.steps))) {
+    lines.splice(insertAt, 0, ...block);
+    return lines.join(eol);
+  }
+  if (insertAt === -1) {
+    const heading = lines.findIndex((line) => Number(PHASE_HEADING_REGEX.exec(line)?.[1]) === step.phase);
+    if (heading !== -1) {
+      insertAt = lines.findIndex((line, index) => index > heading && /^#{1,6}\s/.test(line));
+      insertAt = insertAt === -1 ? lines.length : insertAt;
+    } else {
+      insertAt = lines.length;
+    }
+    while (insertAt > 0 && lines[insertAt - 1].trim() === "") {
+      insertAt -= 1;
+    }
+  }
+
+  const trailing = insertAt < lines.length && lines[insertAt].trim() !== "" ? [""] : [];
+  lines.splice(insertAt, 0, "", ...block, ...trailing);
+  if (lines[lines.length - 1] !== "") {
     lines.push("");
   }
+  return lines.join(eol);
+}
 
-  return `${lines.join("\n")}\n`;
+/** Rewrites a step declaration in place and points `depends:` references at its new identifier. */
+function rewritePlanStep(content: string, step: string, replacement: { step: string; label: string }): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(/\r?\n/);
+  const range = findPlanStepBlock(lines, step);
+  if (!range) {
+    throw new Error(`step ${step} is not declared in PLAN.md`);
+  }
+  lines[range[0]] = lines[range[0]].replace(
+    /^(\s*-\s*Step\s+)[0-9]+(?:\.[0-9]+)*(\s*:\s*).*$/i,
+    (_, prefix: string, separator: string) => `${prefix}${replacement.step}${separator}${replacement.label}`
+  );
+  if (replacement.step !== step) {
+    for (let index = 0; index < lines.length; index += 1) {
+      const match = /^(\s+-\s+depends(?:\s+on)?\s*:\s*)(.*)$/i.exec(lines[index]);
+      if (match) {
+        const dependencies = match[2].split(",").map((dependency) => dependency.trim());
+        if (dependencies.includes(step)) {
+          const renamed = dependencies.map((dependency) => (dependency === step ? replacement.step : dependency));
+          lines[index] = `${match[1]}${renamed.join(", ")}`;
+        }
+      }
+    }
+  }
+  return lines.join(eol);
+}
+
+function removePlanStep(content: string, step: string): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.split(/\r?\n/);
+  const range = findPlanStepBlock(lines, step);
+  if (!range) {
+    throw new Error(`step ${step} is not declared in PLAN.md`);
+  }
+  let [start, end] = range;
+  if (end < lines.length && lines[end].trim() === "" && (start === 0 || lines[start - 1].trim() === "")) {
+    end += 1;
+  }
+  lines.splice(start, end - start);
+  return lines.join(eol);
 }
 
 export class WorkNode extends WorkNodeSchema {
-  static async load(root: string): Promise<WorkNode> {
-    const layout = await validateWorkNodeLayout(root);
-    return WorkNode.loadFromLayout(layout);
+  lockOwner: string = defaultLockOwner();
+  /** Lease session the node's writes belong to; see `acquireWorkNodeLock`. */
+  lockSession: string | undefined = defaultLockSession();
+  /** Recorded as the `command` of journal events; the CLI names the command it runs. */
+  command = "library";
+
+  static async load(root: string, storage: WorkNodeStorage = fileSystemStorage): Promise<WorkNode> {
+    const layout = await validateWorkNodeLayout(root, storage);
+    return WorkNode.loadFromLayout(layout, storage);
+  }
+
+  /** @deprecated Use `load`, which also accepts a storage backend. */
+  static loadSync(root: string): WorkNode {
+    const layout = validateWorkNodeLayoutSync(root);
+    const plan = parsePlanSync(layout.planPath);
+    const state = parseStateSync(layout.statePath);
+    ensurePlanStateConsistency(plan, state);
+    const logs = loadLogMetadataSync(layout, plan, state);
+    return new WorkNode(layout, plan, state, logs, fileSystemStorage);
   }
 
-  static async loadFromLayout(layout: WorkNodeLayout): Promise<WorkNode> {
-    const plan = await parsePlan(layout.planPath);
-    const state = await parseState(layout.statePath);
+  /**
+   * Loads a node for a command that writes to it, first finishing any operation that was
+   * interrupted while committing. `load` leaves such an intent alone for audits to report.
+   */
+  static async loadForUpdate(root: string, storage: WorkNodeStorage = fileSystemStorage): Promise<WorkNode> {
+    const layout = await validateWorkNodeLayout(root, storage);
+    await recoverWorkNodeTransaction(layout, storage);
+    return WorkNode.loadFromLayout(layout, storage);
+  }
+
+  static async loadFromLayout(layout: WorkNodeLayout, storage: WorkNodeStorage = fileSystemStorage): Promise<WorkNode> {
+    const plan = await parsePlan(layout.planPath, storage);
+    const state = await parseState(layout.statePath, storage);
     ensurePlanStateConsistency(plan, state);
-    return new WorkNode(layout, plan, state);
+    const logs = await loadLogMetadata(layout, plan, state, storage);
+    return new WorkNode(layout, plan, state, logs, storage);
   }
 
-  static async initialize(root: string, planSteps: PlanStep[] = DEFAULT_INIT_PLAN_STEPS): Promise<WorkNode> {
+  static async initialize(
+    root: string,
+    planSteps: PlanStep[] = DEFAULT_INIT_PLAN_STEPS,
+    storage: WorkNodeStorage = fileSystemStorage
+  ): Promise<WorkNode> {
     const normalizedRoot = path.resolve(root);
     const layout: WorkNodeLayout = {
       root: normalizedRoot,
@@ -137,8 +371,8 @@ export class WorkNode extends WorkNodeSchema {
       logsDir: path.join(normalizedRoot, "logs")
     };
 
-    const planExists = await fileExists(layout.planPath);
-    const stateExists = await fileExists(layout.statePath);
+    const planExists = await fileExists(layout.planPath, storage);
+    const stateExists = await fileExists(layout.statePath, storage);
 
     if (planExists && stateExists) {
       throw new Error(`${normalizedRoot} already contains a WorkNode.`);
@@ -148,33 +382,27 @@ export class WorkNode extends WorkNodeSchema {
       throw new Error(`STATE.md exists without a PLAN.md under ${normalizedRoot}.`);
     }
 
-    await fs.mkdir(normalizedRoot, { recursive: true });
-    await fs.mkdir(layout.logsDir, { recursive: true });
+    await storage.mkdir(normalizedRoot);
+    await storage.mkdir(layout.logsDir);
 
     let plan: WorkPlan;
     if (planExists) {
-      plan = await parsePlan(layout.planPath);
+      plan = await parsePlan(layout.planPath, storage);
     } else {
       const planText = buildPlanMarkdown(planSteps);
-      await atomicWriteFile(layout.planPath, planText);
+      await storage.writeFile(layout.planPath, planText);
       plan = new WorkPlan(planSteps);
     }
 
     const state = buildInitialState(plan);
-    await writeState(layout.statePath, state);
+    await writeState(layout.statePath, state, storage);
+    await recordStateChanges(layout, [], state.entries, { actor: defaultLockOwner(), command: "init" }, storage);
 
-    return new WorkNode(layout, plan, state);
+    return new WorkNode(layout, plan, state, [], storage);
   }
 
-  static loadSync(root: string): WorkNode {
-    const layout = validateWorkNodeLayoutSync(root);
-    const plan = parsePlanSync(layout.planPath);
-    const state = parseStateSync(layout.statePath);
-    ensurePlanStateConsistency(plan, state);
-    return new WorkNode(layout, plan, state);
-  }
-  static async discoverRelations(root: string): Promise<WorkNodeRelation[]> {
-    const nodes = await discoverWorkNodes(root);
+  static async discoverRelations(root: string, storage: WorkNodeStorage = fileSystemStorage): Promise<WorkNodeRelation[]> {
+    const nodes = await discoverWorkNodes(root, storage);
     return buildWorkNodeRelations(nodes);
   }
 
@@ -183,7 +411,11 @@ export class WorkNode extends WorkNodeSchema {
   }
 
   getNextActionableStep(): StateRow | undefined {
-    return findNextActionableStep(this.state);
+    return findNextActionableStep(this.state, this.plan);
+  }
+
+  getReadySteps(): StateRow[] {
+    return findReadySteps(this.state, this.plan);
   }
 
   getStateEntry(phase: number, step: string): StateRow | undefined {
@@ -191,14 +423,70 @@ export class WorkNode extends WorkNodeSchema {
   }
 
   async refreshState(): Promise<WorkState> {
-    const state = await parseState(this.layout.statePath);
+    const state = await parseState(this.layout.statePath, this.storage);
     ensurePlanStateConsistency(this.plan, state);
     this.state = state;
     return state;
   }
 
+  async refreshLogs(): Promise<LogMetadata[]> {
+    this.logs = await loadLogMetadata(this.layout, this.plan, this.state, this.storage);
+    return this.logs;
+  }
+
+  getLog(stepId: string): LogMetadata | undefined {
+    return this.logs.find((log) => log.step === stepId);
+  }
+
   async persistState(): Promise<void> {
-    await writeState(this.layout.statePath, this.state);
+    await assertWorkNodeWritable(this.layout, this.lockOwner, this.storage, this.lockSession);
+    const before = await this.readPersistedRows();
+    await writeState(this.layout.statePath, this.state, this.storage);
+    await recordStateChanges(this.layout, before, this.state.entries, this.eventContext(), this.storage);
+  }
+
+  /** The rows currently in STATE.md, or none when it cannot be read. */
+  private async readPersistedRows(): Promise<StateRow[]> {
+    try {
+      return (await parseState(this.layout.statePath, this.storage)).entries;
+    } catch {
+      return [];
+    }
+  }
+
+  private eventContext(): EventContext {
+    return { actor: this.lockOwner, command: this.command };
+  }
+
+  /**
+   * Runs `operation` with the node's file writes staged and commits them as one
+   * transaction, so a crash leaves either all of them or none (see transaction.ts).
+   * Nothing is written when `operation` throws, and `plan`, `state`, and `logs` are put
+   * back as they were. Nested calls join the outer transaction.
+   */
+  async transaction<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.storage instanceof WorkNodeTransaction) {
+      return operation();
+    }
+    const base = this.storage;
+    const plan = new WorkPlan(structuredClone(this.plan.steps));
+    const state = new WorkState(structuredClone(this.state.entries));
+    const logs = this.logs;
+    const transaction = new WorkNodeTransaction(this.layout, base, { owner: this.lockOwner, command: this.command });
+    this.storage = transaction;
+    try {
+      const result = await operation();
+      this.storage = base;
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      this.plan = plan;
+      this.state = state;
+      this.logs = logs;
+      throw error;
+    } finally {
+      this.storage = base;
+    }
   }
 
   locateLog(identifier: StepIdentifier): LogPaths {
@@ -206,8 +494,19 @@ export class WorkNode extends WorkNodeSchema {
   }
 
   async createLogForStep(planStep: PlanStep, status: StepStatus = "in-progress"): Promise<LogPaths> {
-    const relative = await createStepLog(this.layout, planStep, status);
+    const existed = await fileExists(canonicalLogPaths(this.layout, planStep).absolute, this.storage);
+    const relative = await createStepLog(this.layout, planStep, status, this.storage);
+    if (!existed) {
+      const { phase, step, label } = planStep;
+      await appendEvents(
+        this.layout,
+        [{ kind: "log-created", phase, step, label, from: null, to: status, log: relative }],
+        this.eventContext(),
+        this.storage
+      );
+    }
     updateStateEntry(this.state, planStep.phase, planStep.step, { progressLog: relative });
+    await this.refreshLogs();
     return canonicalLogPaths(this.layout, planStep);
   }
 
@@ -215,19 +514,431 @@ export class WorkNode extends WorkNodeSchema {
     step: StepIdentifier,
     updates: { status?: StepStatus; completed?: string }
   ): Promise<void> {
-    const { absolute } = canonicalLogPaths(this.layout, step);
-    await updateLogHeader(absolute, updates);
+    const { absolute, relative } = canonicalLogPaths(this.layout, step);
+    if (!updates.status && !updates.completed) {
+      await this.refreshLogs();
+      return;
+    }
+    const previous = ((await readStepLog(absolute, this.storage)).getHeader("status") as StepStatus | undefined) ?? null;
+    await updateLogHeader(absolute, updates, this.storage);
+    await this.recordLogUpdate(step, relative, previous, updates.status ?? previous);
+    await this.refreshLogs();
+  }
+
+  private async recordLogUpdate(
+    step: StepIdentifier & { label: string },
+    log: string,
+    from: StepStatus | null,
+    to: StepStatus | null
+  ): Promise<void> {
+    await appendEvents(
+      this.layout,
+      [{ kind: "log-updated", phase: step.phase, step: step.step, label: step.label, from, to, log }],
+      this.eventContext(),
+      this.storage
+    );
+  }
+
+  /** Moves a step to `to`, updating its log and STATE.md in one transaction. */
+  async transitionStep(stepId: string, to: StepStatus, options: StepTransitionOptions = {}): Promise<StateRow> {
+    return this.transaction(() => this.applyTransition(stepId, to, options));
+  }
+
+  private async applyTransition(stepId: string, to: StepStatus, options: StepTransitionOptions): Promise<StateRow> {
+    const entry = this.state.findById(stepId);
+    if (!entry) {
+      throw new Error(`step ${stepId} not found in STATE.md`);
+    }
+    const planStep = this.plan.find(entry.phase, entry.step);
+    if (!planStep) {
+      throw new Error(`Plan step ${stepId} not found in PLAN.md`);
+    }
+    const from = entry.status;
+    assertStepTransition(stepId, from, to);
+    if (to === "in-progress") {
+      const active = this.listStepsByStatus("in-progress").find((row) => row !== entry);
+      if (active) {
+        throw new Error(`step ${active.step} is already in-progress; only one step may be in-progress at a time`);
+      }
+    }
+    if (options.by !== undefined) {
+      if (to !== "superseded") {
+        throw new Error(`only superseded steps may name a replacement step`);
+      }
+      if (!this.state.findById(options.by) || options.by === stepId) {
+        throw new Error(`replacement step ${options.by} is not another step in this WorkNode`);
+      }
+    }
+
+    const { absolute, relative } = await this.createLogForStep(planStep, to);
+    const log = await readStepLog(absolute, this.storage);
+    let forcedProblems: string[] = [];
+    if (to === "done") {
+      const problems = log.completionProblems();
+      if (problems.length && !options.force) {
+        throw new StepCompletionError(stepId, problems);
+      }
+      forcedProblems = problems;
+    }
+    await updateLogHeader(
+      absolute,
+      {
+        status: to,
+        previous: from,
+        completed: to === "done" ? options.completedAt ?? new Date().toISOString() : undefined,
+        reopened: from === "done" ? new Date().toISOString() : undefined
+      },
+      this.storage
+    );
+    await this.recordLogUpdate(planStep, relative, (log.getHeader("status") as StepStatus | undefined) ?? null, to);
+    const routine = (from === "todo" && to === "in-progress") || (from === "in-progress" && to === "done");
+    if (!routine || options.reason || options.by) {
+      const replacement = options.by ? ` (superseded by ${options.by})` : "";
+      const reason = options.reason ? `: ${options.reason}` : "";
+      await appendLogNote(absolute, `Status ${from} → ${to}${replacement}${reason}`, new Date(), this.storage);
+    }
+    if (forcedProblems.length) {
+      await appendLogNote(
+        absolute,
+        `Completion forced with --force despite: ${forcedProblems.join("; ")}`,
+        new Date(),
+        this.storage
+      );
+    }
+    updateStateEntry(this.state, entry.phase, entry.step, { status: to });
+    await this.persistState();
+    if (from === "in-progress") {
+      await this.releaseLease();
+    }
+    await this.refreshLogs();
+    return entry;
+  }
+
+  /**
+   * Drops this session's lease once its step is no longer in-progress, so blocking or
+   * superseding the leased step does not leave an orphaned `.worktree.lock` behind.
+   */
+  private async releaseLease(): Promise<void> {
+    const lock = await readWorkNodeLock(this.layout, this.storage);
+    if (lock && isLockHeldBy(lock, this.lockOwner, this.lockSession)) {
+      await this.storage.remove(lockPath(this.layout));
+    }
+  }
+
+  /**
+   * Resolves the step whose log receives notes and outcomes: the given step, or the
+   * current in-progress step when none is named.
+   */
+  async resolveActiveLog(stepId?: string): Promise<{ entry: StateRow; paths: LogPaths }> {
+    const entry = stepId ? this.state.findById(stepId) : this.listStepsByStatus("in-progress")[0];
+    if (!entry) {
+      throw new Error(stepId ? `step ${stepId} not found in STATE.md` : "no step is in-progress");
+    }
+    const paths = canonicalLogPaths(this.layout, entry);
+    if (!(await fileExists(paths.absolute, this.storage))) {
+      throw new Error(`step ${entry.step} has no log yet; start it with \`worktree run\` first`);
+    }
+    return { entry, paths };
+  }
+
+  /** Adds a note to the active step's log and journals it in one transaction. */
+  async appendNote(text: string, stepId?: string): Promise<StateRow> {
+    return this.transaction(async () => {
+      const { entry, paths } = await this.resolveActiveLog(stepId);
+      await assertWorkNodeWritable(this.layout, this.lockOwner, this.storage, this.lockSession);
+      await appendLogNote(paths.absolute, text, new Date(), this.storage);
+      await this.recordLogEntry("note-added", entry, paths);
+      await this.refreshLogs();
+      return entry;
+    });
+  }
+
+  /** Adds an outcome to the active step's log and journals it in one transaction. */
+  async appendOutcome(text: string, stepId?: string): Promise<StateRow> {
+    return this.transaction(async () => {
+      const { entry, paths } = await this.resolveActiveLog(stepId);
+      await assertWorkNodeWritable(this.layout, this.lockOwner, this.storage, this.lockSession);
+      await appendLogOutcome(paths.absolute, text, this.storage);
+      await this.recordLogEntry("outcome-added", entry, paths);
+      await this.refreshLogs();
+      return entry;
+    });
+  }
+
+  private async recordLogEntry(kind: "note-added" | "outcome-added", entry: StateRow, paths: LogPaths): Promise<void> {
+    const { phase, step, label, status } = entry;
+    await appendEvents(
+      this.layout,
+      [{ kind, phase, step, label, from: status, to: status, log: paths.relative }],
+      this.eventContext(),
+      this.storage
+    );
+  }
+
+  /**
+   * Declares a new `todo` step in PLAN.md and STATE.md. The identifier defaults to the
+   * next free `<phase>.<n>`; both files are validated together before either is written.
+   */
+  async addStep(options: AddStepOptions): Promise<StateRow> {
+    const label = normalizeStepLabel(options.label);
+    const details = (options.details ?? []).map((detail) => detail.trim()).filter((detail) => detail.length);
+    if (details.some((detail) => /[\r\n]/.test(detail) || /^step\b/i.test(detail))) {
+      throw new Error("step details must be single lines that do not start with 'Step'");
+    }
+    const step = options.step ?? this.plan.nextStepId(options.phase);
+    if (!/^\d+(?:\.\d+)+$/.test(step) || !step.startsWith(`${options.phase}.`)) {
+      throw new Error(`step identifier ${step} does not belong to phase ${options.phase}`);
+    }
+    const planStep: PlanStep = { phase: options.phase, step, label };
+    if (options.dependsOn?.length) {
+      planStep.dependsOn = [...options.dependsOn];
+    }
+    if (details.length) {
+      planStep.details = details;
+    }
+
+    const plan = new WorkPlan(this.plan.steps);
+    plan.add(planStep);
+    const planContent = insertPlanStep(await this.storage.readFile(this.layout.planPath), this.plan, planStep);
+    const state = new WorkState(this.state.entries);
+    const entry: StateRow = { phase: options.phase, step, label, status: "todo", progressLog: null };
+    state.add(entry);
+    await this.persistPlanAndState(planContent, state);
+    return entry;
+  }
+
+  /** Removes a step that is still `todo`, has no log, and is not depended on. */
+  async removeStep(stepId: string): Promise<StateRow> {
+    const entry = this.state.findById(stepId);
+    if (!entry) {
+      throw new Error(`step ${stepId} not found in STATE.md`);
+    }
+    if (entry.status !== "todo") {
+      throw new Error(`only todo steps can be removed; step ${stepId} is ${entry.status}`);
+    }
+    if (entry.progressLog || (await fileExists(canonicalLogPaths(this.layout, entry).absolute, this.storage))) {
+      throw new Error(`step ${stepId} already has a log and cannot be removed`);
+    }
+    const dependents = this.plan.steps.filter((row) => row.dependsOn?.includes(stepId)).map((row) => row.step);
+    if (dependents.length) {
+      throw new Error(`step ${stepId} cannot be removed because ${dependents.join(", ")} depend on it`);
+    }
+
+    const planContent = removePlanStep(await this.storage.readFile(this.layout.planPath), stepId);
+    const state = new WorkState(this.state.entries);
+    state.remove(entry.phase, entry.step);
+    await this.persistPlanAndState(planContent, state);
+    return entry;
+  }
+
+  /**
+   * Changes a step identifier as a documented maintenance step (§4): PLAN, STATE, and
+   * dependency references are rewritten, the log is renamed and retitled, and the change
+   * is recorded in MIGRATIONS.md and the log's Notes.
+   */
+  async renumberStep(stepId: string, newStepId: string, options: MigrationOptions = {}): Promise<StateRow> {
+    const entry = this.state.findById(stepId);
+    if (!entry) {
+      throw new Error(`step ${stepId} not found in STATE.md`);
+    }
+    if (MIGRATION_LOCKED_STATUSES.has(entry.status)) {
+      throw new Error(`step ${stepId} is ${entry.status}; identifiers of completed steps must never change`);
+    }
+    if (!/^\d+(?:\.\d+)+$/.test(newStepId) || !newStepId.startsWith(`${entry.phase}.`)) {
+      throw new Error(`new identifier ${newStepId} must stay in phase ${entry.phase}`);
+    }
+    if (this.state.findById(newStepId) || this.plan.steps.some((row) => row.step === newStepId)) {
+      throw new Error(`step ${newStepId} already exists`);
+    }
+    const reason = options.reason ? normalizeLogEntry(options.reason) : undefined;
+    const renamed: StateRow = { ...entry, step: newStepId };
+    const from = canonicalLogPaths(this.layout, entry);
+    const to = canonicalLogPaths(this.layout, renamed);
+    const hasLog = await fileExists(from.absolute, this.storage);
+    if (await fileExists(to.absolute, this.storage)) {
+      throw new Error(`${to.relative} already exists`);
+    }
+    if (hasLog || entry.progressLog) {
+      renamed.progressLog = to.relative;
+    }
+
+    const planContent = rewritePlanStep(await this.storage.readFile(this.layout.planPath), stepId, renamed);
+    const state = new WorkState(this.state.entries.filter((row) => row !== entry));
+    state.add(renamed);
+    await this.transaction(async () => {
+      await assertWorkNodeWritable(this.layout, this.lockOwner, this.storage, this.lockSession);
+      if (hasLog) {
+        await this.storage.rename(from.absolute, to.absolute);
+      }
+      await this.persistPlanAndState(planContent, state);
+      await recordMigration(this.layout, { kind: "renumber", from: stepId, to: newStepId, reason }, new Date(), this.storage);
+      if (hasLog) {
+        const log = await readStepLog(to.absolute, this.storage);
+        log.setIdentifier(renamed);
+        log.appendToSection(
+          "Notes",
+          `- ${formatNoteTimestamp()} Renumbered from ${stepId} to ${newStepId}${reason ? `: ${reason}` : ""}`
+        );
+        await this.storage.writeFile(to.absolute, log.toString());
+        await this.refreshLogs();
+      }
+    });
+    return renamed;
+  }
+
+  /** Changes a step label as a documented maintenance step; completed steps keep theirs. */
+  async relabelStep(stepId: string, newLabel: string, options: MigrationOptions = {}): Promise<StateRow> {
+    const entry = this.state.findById(stepId);
+    if (!entry) {
+      throw new Error(`step ${stepId} not found in STATE.md`);
+    }
+    if (MIGRATION_LOCKED_STATUSES.has(entry.status)) {
+      throw new Error(`step ${stepId} is ${entry.status}; completed steps must not be renamed`);
+    }
+    const label = normalizeStepLabel(newLabel);
+    if (label === entry.label) {
+      throw new Error(`step ${stepId} is already labeled '${label}'`);
+    }
+    const reason = options.reason ? normalizeLogEntry(options.reason) : undefined;
+    const relabeled: StateRow = { ...entry, label };
+    const planContent = rewritePlanStep(await this.storage.readFile(this.layout.planPath), stepId, relabeled);
+    const state = new WorkState(this.state.entries.map((row) => (row === entry ? relabeled : row)));
+    await this.transaction(async () => {
+      await this.persistPlanAndState(planContent, state);
+      await recordMigration(
+        this.layout,
+        { kind: "relabel", step: stepId, from: entry.label, to: label, reason },
+        new Date(),
+        this.storage
+      );
+      const { absolute } = canonicalLogPaths(this.layout, relabeled);
+      if (await fileExists(absolute, this.storage)) {
+        const log = await readStepLog(absolute, this.storage);
+        log.setIdentifier(relabeled);
+        log.appendToSection(
+          "Notes",
+          `- ${formatNoteTimestamp()} Relabeled from '${entry.label}' to '${label}'${reason ? `: ${reason}` : ""}`
+        );
+        await this.storage.writeFile(absolute, log.toString());
+        await this.refreshLogs();
+      }
+    });
+    return relabeled;
+  }
+
+  /**
+   * Writes PLAN.md and STATE.md in one transaction after checking that the new pair is
+   * consistent, so a failed edit leaves both files as they were.
+   */
+  private async persistPlanAndState(planContent: string, state: WorkState): Promise<void> {
+    const plan = parsePlanContent(planContent);
+    ensurePlanStateConsistency(plan, state);
+    await this.transaction(async () => {
+      await assertWorkNodeWritable(this.layout, this.lockOwner, this.storage, this.lockSession);
+      const before = await this.readPersistedRows();
+      await this.storage.writeFile(this.layout.planPath, planContent);
+      await writeState(this.layout.statePath, state, this.storage);
+      await recordStateChanges(this.layout, before, state.entries, this.eventContext(), this.storage);
+    });
+    this.plan = plan;
+    this.state = state;
+    await this.refreshLogs();
+  }
+
+  async reopenStep(stepId: string, options: Omit<StepTransitionOptions, "by"> = {}): Promise<StateRow> {
+    const entry = this.state.findById(stepId);
+    if (entry && entry.status !== "done") {
+      throw new Error(`only done steps can be reopened; step ${stepId} is ${entry.status}`);
+    }
+    return this.transitionStep(stepId, "in-progress", options);
+  }
+
+  /**
+   * Returns a blocked step to the status it was blocked from, as recorded by the
+   * `previous-status:` header of its log; steps without that header go back to `todo`.
+   */
+  async unblockStep(stepId: string, options: Omit<StepTransitionOptions, "by"> = {}): Promise<StateRow> {
+    const entry = this.state.findById(stepId);
+    if (!entry) {
+      throw new Error(`step ${stepId} not found in STATE.md`);
+    }
+    let target: StepStatus = "todo";
+    if (entry.status === "blocked") {
+      const { absolute } = canonicalLogPaths(this.layout, entry);
+      const log = (await fileExists(absolute, this.storage)) ? await readStepLog(absolute, this.storage) : StepLog.parse("");
+      target = log.previousStatus === "in-progress" ? "in-progress" : "todo";
+    }
+    return this.transitionStep(stepId, target, options);
+  }
+}
+
+export interface AddStepOptions {
+  phase: number;
+  label: string;
+  /** Explicit identifier; defaults to the next free `<phase>.<n>`. */
+  step?: string;
+  details?: string[];
+  dependsOn?: string[];
+}
+
+export interface MigrationOptions {
+  reason?: string;
+}
+
+const MIGRATION_LOCKED_STATUSES: Set<StepStatus> = new Set(["done", "superseded"]);
+
+function normalizeStepLabel(label: string): string {
+  const normalized = label.trim();
+  if (!normalized || /[|\r\n]/.test(normalized)) {
+    throw new Error("step labels must be non-empty single lines without '|'");
+  }
+  return normalized;
+}
+
+/** Raised when a step cannot be marked done because its log fails the §6 completion rules. */
+export class StepCompletionError extends Error {
+  constructor(
+    readonly step: string,
+    readonly problems: string[]
+  ) {
+    super(`step ${step} cannot be completed yet:\n- ${problems.join("\n- ")}`);
+    this.name = "StepCompletionError";
+  }
+}
+
+export interface StepTransitionOptions {
+  reason?: string;
+  /** Identifier of the step that replaces a superseded step. */
+  by?: string;
+  completedAt?: string;
+  /** Complete a step even though its log fails the completion checks. */
+  force?: boolean;
+}
+
+export const STEP_TRANSITIONS: Readonly<Record<StepStatus, readonly StepStatus[]>> = {
+  todo: ["in-progress", "blocked", "superseded"],
+  "in-progress": ["done", "blocked", "superseded"],
+  blocked: ["todo", "in-progress", "superseded"],
+  done: ["in-progress"],
+  superseded: []
+};
+
+export function canTransitionStep(from: StepStatus, to: StepStatus): boolean {
+  return STEP_TRANSITIONS[from].includes(to);
+}
+
+export function assertStepTransition(stepId: string, from: StepStatus, to: StepStatus): void {
+  if (!canTransitionStep(from, to)) {
+    throw new Error(`illegal transition for step ${stepId}: ${from} → ${to}`);
   }
 }
 
 const STEP_DECLARATION_REGEX = /^\s*-\s*Step\s+(\d+)\.([0-9]+(?:\.[0-9]+)*)\s*:\s*(.+)$/i;
 const DETAIL_LINE_REGEX = /^\s*-\s+(?!Step)(.+)$/i;
+const DEPENDS_LINE_REGEX = /^depends(?:\s+on)?\s*:\s*(.*)$/i;
 const STATE_ROW_REGEX = /^\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|$/;
-const STATUS_LINE_REGEX = /^status:\s*.+$/m;
-const COMPLETED_LINE_REGEX = /^completed:\s*.+$/m;
-const VALID_STATUSES: Set<StepStatus> = new Set(["todo", "in-progress", "blocked", "done", "superseded"]);
+const VALID_STATUSES: Set<StepStatus> = new Set(STEP_STATUSES);
 const LOG_FILENAME_REGEX = /^p(\d+)-s([0-9]+(?:\.[0-9]+)*)\.md$/;
-const STARTED_LINE_REGEX = /^started:\s*.+$/m;
 
 function parsePlanLines(lines: string[]): PlanStep[] {
   const steps: PlanStep[] = [];
@@ -256,6 +967,15 @@ function parsePlanLines(lines: string[]): PlanStep[] {
     if (current) {
       const detailMatch = DETAIL_LINE_REGEX.exec(line);
       if (detailMatch) {
+        const dependsMatch = DEPENDS_LINE_REGEX.exec(detailMatch[1].trim());
+        if (dependsMatch) {
+          const dependencies = dependsMatch[1]
+            .split(",")
+            .map((dependency) => dependency.trim())
+            .filter((dependency) => dependency.length);
+          current.dependsOn = [...(current.dependsOn ?? []), ...dependencies];
+          continue;
+        }
         detailBuffer.push(detailMatch[1].trim());
       }
     }
@@ -301,24 +1021,32 @@ function parseStateRows(lines: string[]): StateRow[] {
   return rows;
 }
 
-export async function parsePlan(planPath: string): Promise<WorkPlan> {
-  const content = await fs.readFile(planPath, "utf8");
+export function parsePlanContent(content: string): WorkPlan {
   return new WorkPlan(parsePlanLines(content.split(/\r?\n/)));
 }
 
-export function parsePlanSync(planPath: string): WorkPlan {
-  const content = readFileSync(planPath, "utf8");
-  return new WorkPlan(parsePlanLines(content.split(/\r?\n/)));
+export function parseStateContent(content: string): WorkState {
+  return new WorkState(parseStateRows(content.split(/\r?\n/)));
 }
 
-export async function parseState(statePath: string): Promise<WorkState> {
-  const content = await fs.readFile(statePath, "utf8");
-  return new WorkState(parseStateRows(content.split(/\r?\n/)));
+export async function parsePlan(planPath: string, storage: WorkNodeStorage = fileSystemStorage): Promise<WorkPlan> {
+  const content = await storage.readFile(planPath);
+  return parsePlanContent(content);
+}
+
+export async function parseState(statePath: string, storage: WorkNodeStorage = fileSystemStorage): Promise<WorkState> {
+  const content = await storage.readFile(statePath);
+  return parseStateContent(content);
 }
 
+/** @deprecated Use `parsePlan`, which also accepts a storage backend. */
+export function parsePlanSync(planPath: string): WorkPlan {
+  return parsePlanContent(fileSystemStorage.readFileSync(planPath));
+}
+
+/** @deprecated Use `parseState`, which also accepts a storage backend. */
 export function parseStateSync(statePath: string): WorkState {
-  const content = readFileSync(statePath, "utf8");
-  return new WorkState(parseStateRows(content.split(/\r?\n/)));
+  return parseStateContent(fileSystemStorage.readFileSync(statePath));
 }
 
 function buildInitialState(plan: WorkPlan): WorkState {
@@ -360,14 +1088,29 @@ export function compareStepIdentifiers(a: StepIdentifier, b: StepIdentifier): nu
   return 0;
 }
 
-export function findNextActionableStep(state: WorkState): StateRow | undefined {
+const SATISFIED_DEPENDENCY_STATUSES: Set<StepStatus> = new Set(["done", "superseded"]);
+
+export function findReadySteps(state: WorkState, plan?: WorkPlan): StateRow[] {
+  const statusByStep = new Map(state.entries.map((entry) => [entry.step, entry.status]));
+  const ready = state.entries.filter((entry) => {
+    if (entry.status !== "todo") {
+      return false;
+    }
+    const dependencies = plan?.find(entry.phase, entry.step)?.dependsOn ?? [];
+    return dependencies.every((dependency) => {
+      const status = statusByStep.get(dependency);
+      return status !== undefined && SATISFIED_DEPENDENCY_STATUSES.has(status);
+    });
+  });
+  return ready.sort(compareStepIdentifiers);
+}
+
+export function findNextActionableStep(state: WorkState, plan?: WorkPlan): StateRow | undefined {
   const inProgress = state.entries.filter((entry) => entry.status === "in-progress");
   if (inProgress.length) {
     return inProgress[0];
   }
-  const todo = state.entries.filter((entry) => entry.status === "todo");
-  const sorted = [...todo].sort(compareStepIdentifiers);
-  return sorted[0];
+  return findReadySteps(state, plan)[0];
 }
 
 export interface LogPaths {
@@ -385,101 +1128,145 @@ export function canonicalLogPaths(layout: WorkNodeLayout, identifier: StepIdenti
   return { absolute, relative };
 }
 
-async function atomicWriteFile(filePath: string, contents: string): Promise<void> {
-  const directory = path.dirname(filePath);
-  await fs.mkdir(directory, { recursive: true });
-  const tempName = `.tmp-${process.pid}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
-  const tempPath = path.join(directory, tempName);
-  try {
-    await fs.writeFile(tempPath, contents, "utf8");
-    await fs.rename(tempPath, filePath);
-  } catch (error) {
-    await fs.rm(tempPath, { force: true }).catch(() => {});
-    throw error;
+async function fileExists(filePath: string, storage: WorkNodeStorage): Promise<boolean> {
+  return (await storage.stat(filePath)) !== null;
+}
+
+
+function buildLogMetadata(
+  layout: WorkNodeLayout,
+  name: string,
+  contents: string,
+  plan: WorkPlan,
+  state: WorkState
+): LogMetadata | null {
+  const match = LOG_FILENAME_REGEX.exec(name);
+  if (!match) {
+    return null;
   }
+  const phase = Number(match[1]);
+  const step = match[2];
+  const document = StepLog.parse(contents);
+  const headerStatus = document.getHeader("status") as StepStatus | undefined;
+  const status = headerStatus && VALID_STATUSES.has(headerStatus) ? headerStatus : state.find(phase, step)?.status;
+  return {
+    phase,
+    step,
+    label: document.identifier?.label ?? plan.find(phase, step)?.label ?? "",
+    logPath: path.relative(layout.root, path.join(layout.logsDir, name)).split(path.sep).join("/"),
+    status: status ?? "todo",
+    started: document.getHeader("started") ?? "",
+    completed: document.getHeader("completed"),
+    document
+  };
 }
 
-async function fileExists(filePath: string): Promise<boolean> {
-  try {
-    await fs.stat(filePath);
-    return true;
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-      return false;
+export async function loadLogMetadata(
+  layout: WorkNodeLayout,
+  plan: WorkPlan,
+  state: WorkState,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<LogMetadata[]> {
+  const logs: LogMetadata[] = [];
+  for (const entry of await storage.readDir(layout.logsDir)) {
+    if (entry.kind !== "file") {
+      continue;
+    }
+    const contents = await storage.readFile(path.join(layout.logsDir, entry.name));
+    const metadata = buildLogMetadata(layout, entry.name, contents, plan, state);
+    if (metadata) {
+      logs.push(metadata);
     }
-    throw error;
   }
+  return logs.sort(compareStepIdentifiers);
 }
 
+/** @deprecated Use `loadLogMetadata`, which also accepts a storage backend. */
+export function loadLogMetadataSync(layout: WorkNodeLayout, plan: WorkPlan, state: WorkState): LogMetadata[] {
+  const logs: LogMetadata[] = [];
+  for (const entry of fileSystemStorage.readDirSync(layout.logsDir)) {
+    if (entry.kind !== "file") {
+      continue;
+    }
+    const contents = fileSystemStorage.readFileSync(path.join(layout.logsDir, entry.name));
+    const metadata = buildLogMetadata(layout, entry.name, contents, plan, state);
+    if (metadata) {
+      logs.push(metadata);
+    }
+  }
+  return logs.sort(compareStepIdentifiers);
+}
 
 export async function createStepLog(
   layout: WorkNodeLayout,
   planStep: PlanStep,
-  status: StepStatus = "in-progress"
+  status: StepStatus = "in-progress",
+  storage: WorkNodeStorage = fileSystemStorage
 ): Promise<string> {
   const { absolute, relative } = canonicalLogPaths(layout, planStep);
-  await fs.mkdir(layout.logsDir, { recursive: true });
-  if (await fileExists(absolute)) {
+  await storage.mkdir(layout.logsDir);
+  if (await fileExists(absolute, storage)) {
     return relative;
   }
-  const planDetails = planStep.details ?? [];
-  const scope = planDetails.length ? planDetails.join(" · ") : planStep.label;
-  const planChecklist =
-    planDetails.length > 0
-      ? planDetails.map((detail) => `- [ ] ${detail}`).join("\n")
-      : "- [ ] TODO";
-  const template = [
-    `# Phase ${planStep.phase} – Step ${planStep.step}: ${planStep.label}`,
-    `status: ${status}`,
-    `started: ${new Date().toISOString()}`,
-    "",
-    "## Scope",
-    scope,
-    "",
-    "## Plan",
-    planChecklist,
-    "",
-    "## Notes",
-    "",
-    "## Outcomes",
-    ""
-  ].join("\n");
-  await atomicWriteFile(absolute, template);
+  await storage.writeFile(absolute, StepLog.create(planStep, status).toString());
   return relative;
 }
 
+function normalizeLogEntry(text: string): string {
+  const normalized = text.replace(/\s*\r?\n\s*/g, " ").trim();
+  if (!normalized) {
+    throw new Error("log entries must not be empty");
+  }
+  return normalized;
+}
+
+async function readStepLog(logPath: string, storage: WorkNodeStorage): Promise<StepLog> {
+  return StepLog.parse(await storage.readFile(logPath));
+}
+
+export async function appendLogNote(
+  logPath: string,
+  text: string,
+  timestamp: Date = new Date(),
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<void> {
+  const log = await readStepLog(logPath, storage);
+  log.appendToSection("Notes", `- ${formatNoteTimestamp(timestamp)} ${normalizeLogEntry(text)}`);
+  await storage.writeFile(logPath, log.toString());
+}
+
+export async function appendLogOutcome(
+  logPath: string,
+  text: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<void> {
+  const log = await readStepLog(logPath, storage);
+  log.appendToSection("Outcomes", `- ${normalizeLogEntry(text)}`);
+  await storage.writeFile(logPath, log.toString());
+}
+
 export async function updateLogHeader(
   logPath: string,
-  updates: { status?: StepStatus; completed?: string }
+  updates: { status?: StepStatus; previous?: StepStatus; completed?: string; reopened?: string },
+  storage: WorkNodeStorage = fileSystemStorage
 ): Promise<void> {
-  if (!updates.status && !updates.completed) {
+  if (!updates.status && !updates.completed && !updates.reopened) {
     return;
   }
-  let contents = await fs.readFile(logPath, "utf8");
+  const log = await readStepLog(logPath, storage);
   if (updates.status) {
-    if (STATUS_LINE_REGEX.test(contents)) {
-      contents = contents.replace(STATUS_LINE_REGEX, `status: ${updates.status}`);
-    } else {
-      contents = `status: ${updates.status}\n${contents}`;
-    }
+    log.setHeader("status", updates.status);
+  }
+  if (updates.previous) {
+    log.setHeader("previous-status", updates.previous, "status");
   }
   if (updates.completed) {
-    if (COMPLETED_LINE_REGEX.test(contents)) {
-      contents = contents.replace(COMPLETED_LINE_REGEX, `completed: ${updates.completed}`);
-    } else {
-      const startedMatch = contents.match(/^started:.*$/m);
-      if (startedMatch && typeof startedMatch.index === "number") {
-        const insertPosition = startedMatch.index + startedMatch[0].length;
-        contents =
-          contents.slice(0, insertPosition) +
-          `\ncompleted: ${updates.completed}` +
-          contents.slice(insertPosition);
-      } else {
-        contents = `completed: ${updates.completed}\n${contents}`;
-      }
-    }
+    log.setHeader("completed", updates.completed, "started");
+  }
+  if (updates.reopened) {
+    log.setHeader("reopened", updates.reopened, "previous-status");
   }
-  await atomicWriteFile(logPath, contents);
+  await storage.writeFile(logPath, log.toString());
 }
 
 export function updateStateEntry(
@@ -495,16 +1282,53 @@ export function updateStateEntry(
   Object.assign(entry, changes);
 }
 
-export async function writeState(statePath: string, state: WorkState): Promise<void> {
+export async function writeState(
+  statePath: string,
+  state: WorkState,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<void> {
   const lines = [
     "| Phase | Step | Label | Status | Progress Log |",
     "| ----- | ---- | ----- | ------ | ------------ |",
-    ...state.entries.map((entry) => {
-      const progressLog = entry.progressLog ?? "-";
-      return `| ${entry.phase} | ${entry.step} | ${entry.label} | ${entry.status} | ${progressLog} |`;
-    })
+    ...state.entries.map(formatStateRow)
   ];
-  await atomicWriteFile(statePath, `${lines.join("\n")}\n`);
+  await storage.writeFile(statePath, `${lines.join("\n")}\n`);
+}
+
+export function formatStateRow(entry: StateRow): string {
+  return `| ${entry.phase} | ${entry.step} | ${entry.label} | ${entry.status} | ${entry.progressLog ?? "-"} |`;
+}
+
+export function validatePlanDependencies(plan: WorkPlan): void {
+  const stepsById = new Map(plan.steps.map((step) => [step.step, step]));
+  for (const step of plan.steps) {
+    for (const dependency of step.dependsOn ?? []) {
+      if (!stepsById.has(dependency)) {
+        throw new Error(`PLAN step ${step.step} depends on unknown step ${dependency}`);
+      }
+    }
+  }
+
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const visit = (step: PlanStep, trail: string[]): void => {
+    if (visited.has(step.step)) {
+      return;
+    }
+    if (visiting.has(step.step)) {
+      const cycle = [...trail.slice(trail.indexOf(step.step)), step.step];
+      throw new Error(`PLAN contains a dependency cycle: ${cycle.join(" -> ")}`);
+    }
+    visiting.add(step.step);
+    for (const dependency of step.dependsOn ?? []) {
+      visit(stepsById.get(dependency) as PlanStep, [...trail, step.step]);
+    }
+    visiting.delete(step.step);
+    visited.add(step.step);
+  };
+  for (const step of [...plan.steps].sort(compareStepIdentifiers)) {
+    visit(step, []);
+  }
 }
 
 export function ensurePlanStateConsistency(plan: WorkPlan, state: WorkState): void {
@@ -543,63 +1367,369 @@ export function ensurePlanStateConsistency(plan: WorkPlan, state: WorkState): vo
       throw new Error(`STATE.md contains unexpected entry ${key} (${entry.label})`);
     }
   }
+
+  validatePlanDependencies(plan);
+}
+
+export type AuditSeverity = "error" | "warning";
+
+export interface AuditRule {
+  id: string;
+  description: string;
+  severity: AuditSeverity;
+}
+
+export const AUDIT_RULES: readonly AuditRule[] = [
+  { id: "layout", description: "PLAN.md, STATE.md, and logs/ must exist with the right types.", severity: "error" },
+  {
+    id: "plan-state-consistency",
+    description: "PLAN and STATE must parse and agree on step identifiers, labels, and dependencies.",
+    severity: "error"
+  },
+  { id: "missing-log", description: "Progress Log cells must point at existing log files.", severity: "error" },
+  { id: "log-filename", description: "Log files must follow the p<P>-s<S>.md naming pattern.", severity: "error" },
+  { id: "log-header", description: "Logs must carry status and started header fields.", severity: "error" },
+  { id: "log-unknown-step", description: "Logs must belong to a step declared in PLAN.md.", severity: "error" },
+  {
+    id: "log-completion",
+    description: "Logs of done steps must have every checklist item ticked and Outcomes filled.",
+    severity: "error"
+  },
+  {
+    id: "single-in-progress",
+    description: "At most one step may be in-progress at a time.",
+    severity: "error"
+  },
+  {
+    id: "log-required",
+    description: "Steps that are in-progress, done, or superseded must have a log.",
+    severity: "error"
+  },
+  {
+    id: "log-status-mismatch",
+    description: "A log's status header must match the status of its STATE row.",
+    severity: "error"
+  },
+  {
+    id: "log-timestamps",
+    description: "Logs of done steps need ISO 8601 started and completed headers, with completed after started.",
+    severity: "error"
+  },
+  {
+    id: "progress-log-path",
+    description: "Progress Log cells must hold the canonical logs/p<P>-s<S>.md path.",
+    severity: "error"
+  },
+  { id: "orphaned-lock", description: "Lease locks must be live and cover an in-progress step.", severity: "error" },
+  { id: "history-removed-step", description: "Steps with progress must not be removed.", severity: "error" },
+  { id: "history-removed-node", description: "WorkNodes in the baseline must not be deleted.", severity: "error" },
+  { id: "history-reidentified-step", description: "Step identifiers must never change.", severity: "error" },
+  { id: "history-relabeled-step", description: "Completed steps must not be renamed.", severity: "error" },
+  { id: "history-status-regression", description: "Completed steps must not change status.", severity: "error" },
+  {
+    id: "history-plan-details",
+    description: "PLAN details of completed steps may only gain annotations.",
+    severity: "error"
+  },
+  { id: "history-log-deleted", description: "Step logs must not be deleted.", severity: "error" },
+  { id: "history-log-started", description: "A log's started timestamp must not change.", severity: "error" },
+  { id: "history-log-truncated", description: "Log history must not be erased.", severity: "error" },
+  { id: "history-migrations", description: "Recorded migrations must not be edited or removed.", severity: "error" },
+  { id: "history-unavailable", description: "The baseline snapshot must be readable.", severity: "error" },
+  { id: "config", description: "The node's .worktree.json must be valid and name known rules.", severity: "error" },
+  {
+    id: "pending-transaction",
+    description: "No interrupted operation may be left in .worktree.intent.json.",
+    severity: "error"
+  },
+  {
+    id: "journal-drift",
+    description: "STATE.md must match the state replayed from events.jsonl; differences were made outside the library.",
+    severity: "warning"
+  }
+];
+
+export interface AuditFinding {
+  ruleId: string;
+  severity: AuditSeverity;
+  message: string;
+  /** Absolute root of the WorkNode the finding belongs to. */
+  node: string;
+  /** Node-relative path of the offending file, when known. */
+  file?: string;
+  /** 1-based line number inside `file`, when known. */
+  line?: number;
+}
+
+export function createAuditFinding(
+  node: string,
+  ruleId: string,
+  message: string,
+  location: { file?: string; line?: number } = {}
+): AuditFinding {
+  const rule = AUDIT_RULES.find((candidate) => candidate.id === ruleId);
+  if (!rule) {
+    throw new Error(`unknown audit rule '${ruleId}'`);
+  }
+  return { ruleId, severity: rule.severity, message, node, ...location };
+}
+
+/**
+ * Applies a node's per-rule settings: rules set to "off" are dropped and the others take
+ * the configured severity.
+ */
+export function applyAuditRuleSettings(findings: AuditFinding[], config: WorkNodeConfig): AuditFinding[] {
+  const applied: AuditFinding[] = [];
+  for (const finding of findings) {
+    const setting = config.rules[finding.ruleId];
+    if (setting === "off") {
+      continue;
+    }
+    applied.push(setting ? { ...finding, severity: setting } : finding);
+  }
+  return applied;
 }
 
-export async function validateWorkNode(root: string): Promise<void> {
-  const node = await WorkNode.load(root);
-  const layout = node.layout;
+const ISO_TIMESTAMP_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+function parseIsoTimestamp(value: string | undefined): number | null {
+  if (!value || !ISO_TIMESTAMP_REGEX.test(value)) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+const LOGGED_STATUSES: Set<StepStatus> = new Set(["in-progress", "done", "superseded"]);
+
+function indexStateRowLines(contents: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  contents.split(/\r?\n/).forEach((line, index) => {
+    const match = STATE_ROW_REGEX.exec(line);
+    if (match && !lines.has(match[2].trim())) {
+      lines.set(match[2].trim(), index + 1);
+    }
+  });
+  return lines;
+}
+
+function splitFailureLines(message: string): string[] {
+  return message
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length && !line.match(/^WorkNode (validation|layout) failed:/))
+    .map((line) => line.replace(/^[-*]\s*/, ""));
+}
+
+export async function collectWorkNodeFindings(
+  root: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<AuditFinding[]> {
+  const normalizedRoot = path.resolve(root);
+  let layout: WorkNodeLayout;
+  try {
+    layout = await validateWorkNodeLayout(normalizedRoot, storage);
+  } catch (error) {
+    return splitFailureLines((error as Error).message).map((line) =>
+      createAuditFinding(normalizedRoot, "layout", line)
+    );
+  }
+
+  let config: WorkNodeConfig = { rules: {} };
+  const findings: AuditFinding[] = [];
+  try {
+    config = await readWorkNodeConfig(layout, storage);
+    for (const ruleId of Object.keys(config.rules)) {
+      if (!AUDIT_RULES.some((rule) => rule.id === ruleId)) {
+        findings.push(createAuditFinding(layout.root, "config", `config names unknown rule '${ruleId}'`, { file: CONFIG_FILENAME }));
+      }
+    }
+  } catch (error) {
+    findings.push(createAuditFinding(layout.root, "config", (error as Error).message, { file: CONFIG_FILENAME }));
+  }
+  findings.push(...(await checkPendingTransaction(layout, storage)));
+  findings.push(...(await checkWorkNode(layout, storage)));
+  return applyAuditRuleSettings(findings, config);
+}
+
+/** Reports a write-ahead intent left by an operation that has not finished committing. */
+async function checkPendingTransaction(layout: WorkNodeLayout, storage: WorkNodeStorage): Promise<AuditFinding[]> {
+  let message: string;
+  try {
+    const intent = await readWorkNodeIntent(layout, storage);
+    if (!intent) {
+      return [];
+    }
+    const action = intent.state === "committed" ? "roll it forward" : "roll it back";
+    message = isIntentAbandoned(layout, intent)
+      ? `${intent.command} by ${intent.owner} from ${intent.createdAt} was interrupted; the next command that writes to the node will ${action}`
+      : `${intent.command} by ${intent.owner} (pid ${intent.pid} on ${intent.host}) is still committing`;
+  } catch (error) {
+    message = (error as Error).message;
+  }
+  return [createAuditFinding(layout.root, "pending-transaction", message, { file: INTENT_FILENAME })];
+}
+
+async function checkWorkNode(layout: WorkNodeLayout, storage: WorkNodeStorage): Promise<AuditFinding[]> {
+  let node: WorkNode;
+  try {
+    node = await WorkNode.loadFromLayout(layout, storage);
+  } catch (error) {
+    return [createAuditFinding(layout.root, "plan-state-consistency", (error as Error).message)];
+  }
+
   const planSteps = new Map<string, PlanStep>();
   for (const step of node.plan.steps) {
     planSteps.set(`${step.phase}:${step.step}`, step);
   }
+  const stateLines = indexStateRowLines(await storage.readFile(layout.statePath));
+  const findings: AuditFinding[] = [];
+  const report = (ruleId: string, message: string, location: { file?: string; line?: number } = {}): void => {
+    findings.push(createAuditFinding(layout.root, ruleId, message, location));
+  };
 
-  const errors: string[] = [];
+  try {
+    const events = await readEvents(layout, storage);
+    if (events.length) {
+      for (const drift of findJournalDrift(events, node.state.entries)) {
+        report("journal-drift", drift.message, { file: "STATE.md", line: stateLines.get(drift.step) });
+      }
+    }
+  } catch (error) {
+    report("journal-drift", (error as Error).message, { file: EVENTS_FILENAME });
+  }
+
+  const inProgress = node.listStepsByStatus("in-progress");
+  for (const entry of inProgress.slice(1)) {
+    report(
+      "single-in-progress",
+      `step ${entry.step} is in-progress while ${inProgress[0].step} is also in-progress`,
+      { file: "STATE.md", line: stateLines.get(entry.step) }
+    );
+  }
 
   for (const entry of node.state.entries) {
+    const location = { file: "STATE.md", line: stateLines.get(entry.step) };
+    const canonical = canonicalLogPaths(layout, entry);
+    if (entry.progressLog && entry.progressLog !== canonical.relative) {
+      report(
+        "progress-log-path",
+        `Progress Log of ${entry.step} is '${entry.progressLog}' instead of '${canonical.relative}'`,
+        location
+      );
+    } else if (!entry.progressLog && (await fileExists(canonical.absolute, storage))) {
+      report(
+        "progress-log-path",
+        `Progress Log of ${entry.step} is empty although ${canonical.relative} exists`,
+        location
+      );
+    }
+    if (LOGGED_STATUSES.has(entry.status) && !entry.progressLog && !(await fileExists(canonical.absolute, storage))) {
+      report("log-required", `${entry.status} step ${entry.step} has no log`, location);
+    }
     if (!entry.progressLog) {
       continue;
     }
     const logPath = path.join(layout.root, entry.progressLog);
-    if (!(await fileExists(logPath))) {
-      errors.push(`state references missing log ${entry.progressLog} for ${entry.phase}.${entry.step}`);
+    if (!(await fileExists(logPath, storage))) {
+      report("missing-log", `state references missing log ${entry.progressLog} for ${entry.phase}.${entry.step}`, location);
       continue;
     }
-    const directories = path.dirname(entry.progressLog);
     const filename = path.basename(entry.progressLog);
     if (!LOG_FILENAME_REGEX.test(filename)) {
-      errors.push(`unexpected log filename '${entry.progressLog}' for ${entry.phase}.${entry.step}`);
+      report("log-filename", `unexpected log filename '${entry.progressLog}' for ${entry.phase}.${entry.step}`, location);
     }
   }
 
-  const entries = await safeReadDir(layout.logsDir);
+  const entries = await storage.readDir(layout.logsDir);
   for (const dirent of entries) {
-    if (!dirent.isFile()) {
+    if (dirent.kind !== "file") {
       continue;
     }
     const name = dirent.name;
+    const file = `logs/${name}`;
     const match = LOG_FILENAME_REGEX.exec(name);
     if (!match) {
-      errors.push(`log file ${name} does not follow the p<P>-s<S>.md pattern`);
+      report("log-filename", `log file ${name} does not follow the p<P>-s<S>.md pattern`, { file });
       continue;
     }
     const logPath = path.join(layout.logsDir, name);
-    if (!(await fileExists(logPath))) {
-      errors.push(`unexpected missing log file ${logPath}`);
+    if (!(await fileExists(logPath, storage))) {
+      report("missing-log", `unexpected missing log file ${logPath}`, { file });
       continue;
     }
-    const contents = await fs.readFile(logPath, "utf8");
-    if (!STATUS_LINE_REGEX.test(contents)) {
-      errors.push(`log ${name} is missing a status header`);
+    const log = await readStepLog(logPath, storage);
+    if (!log.getHeader("status")) {
+      report("log-header", `log ${name} is missing a status header`, { file, line: 1 });
     }
-    if (!STARTED_LINE_REGEX.test(contents)) {
-      errors.push(`log ${name} is missing a started header`);
+    if (!log.getHeader("started")) {
+      report("log-header", `log ${name} is missing a started header`, { file, line: 1 });
     }
     const key = `${match[1]}:${match[2]}`;
     if (!planSteps.has(key)) {
-      errors.push(`log ${name} refers to unknown plan step ${key}`);
+      report("log-unknown-step", `log ${name} refers to unknown plan step ${key}`, { file, line: 1 });
+    }
+    const headerLine = (header: string): number =>
+      (log.headers.find((field) => field.key === header)?.line ?? 0) + 1;
+    const stateStatus = node.getStateEntry(Number(match[1]), match[2])?.status;
+    const logStatus = log.getHeader("status");
+    if (stateStatus && logStatus && logStatus !== stateStatus) {
+      report("log-status-mismatch", `log ${name} says status ${logStatus} but STATE.md says ${stateStatus}`, {
+        file,
+        line: headerLine("status")
+      });
+    }
+    if (stateStatus === "done") {
+      const started = parseIsoTimestamp(log.getHeader("started"));
+      const completed = parseIsoTimestamp(log.getHeader("completed"));
+      if (started === null) {
+        report("log-timestamps", `log ${name} of done step ${match[2]} has no valid ISO 8601 started timestamp`, {
+          file,
+          line: headerLine("started")
+        });
+      }
+      if (completed === null) {
+        report("log-timestamps", `log ${name} of done step ${match[2]} has no valid ISO 8601 completed timestamp`, {
+          file,
+          line: headerLine("completed")
+        });
+      } else if (started !== null && completed <= started) {
+        report(
+          "log-timestamps",
+          `log ${name} of done step ${match[2]} was completed at ${log.getHeader("completed")}, not after it started at ${log.getHeader("started")}`,
+          { file, line: headerLine("completed") }
+        );
+      }
+      const uncheckedLines = new Map(log.planItems.map((item) => [`unchecked plan item: ${item.text}`, item.line + 1]));
+      const outcomesHeading = log.sections.find((section) => section.name === "Outcomes")?.heading;
+      for (const problem of log.completionProblems()) {
+        const line = uncheckedLines.get(problem) ?? (outcomesHeading !== undefined ? outcomesHeading + 1 : undefined);
+        report("log-completion", `log ${name} of done step ${match[2]}: ${problem}`, { file, line });
+      }
     }
   }
 
+  try {
+    const lock = await readWorkNodeLock(layout, storage);
+    if (lock && isLockStale(lock)) {
+      report("orphaned-lock", `orphaned lock held by ${describeLock(lock)} expired at ${lockExpiresAt(lock).toISOString()}`, {
+        file: LOCK_FILENAME
+      });
+    } else if (lock && !node.listStepsByStatus("in-progress").length) {
+      report("orphaned-lock", `orphaned lock held by ${describeLock(lock)} while no step is in-progress`, {
+        file: LOCK_FILENAME
+      });
+    }
+  } catch (error) {
+    report("orphaned-lock", (error as Error).message, { file: LOCK_FILENAME });
+  }
+
+  return findings;
+}
+
+export async function validateWorkNode(root: string, storage: WorkNodeStorage = fileSystemStorage): Promise<void> {
+  const findings = await collectWorkNodeFindings(root, storage);
+  const errors = findings.filter((finding) => finding.severity === "error").map((finding) => finding.message);
   if (errors.length) {
     throw new Error(`WorkNode validation failed:\n- ${errors.join("\n- ")}`);
   }
@@ -607,25 +1737,14 @@ export async function validateWorkNode(root: string): Promise<void> {
 
 export interface AuditResult {
   layout: WorkNodeLayout;
-  errors: string[];
+  findings: AuditFinding[];
 }
 
-export async function auditWorkNodes(root: string): Promise<AuditResult[]> {
-  const layouts = await discoverWorkNodes(root);
+export async function auditWorkNodes(root: string, storage: WorkNodeStorage = fileSystemStorage): Promise<AuditResult[]> {
+  const layouts = await discoverWorkNodes(root, storage);
   const results: AuditResult[] = [];
   for (const layout of layouts) {
-    const result: AuditResult = { layout, errors: [] };
-    try {
-      await validateWorkNode(layout.root);
-    } catch (error) {
-      const message = (error as Error).message;
-      const lines = message
-        .split(/\r?\n/)
-        .map((line) => line.trim())
-        .filter((line) => line.length && !line.match(/^WorkNode (validation|layout) failed:/));
-      result.errors.push(...lines.map((line) => line.replace(/^[-*]\s*/, "")));
-    }
-    results.push(result);
+    results.push({ layout, findings: await collectWorkNodeFindings(layout.root, storage) });
   }
   return results;
 }
@@ -640,92 +1759,75 @@ const requiredEntries: Array<{
   { name: "logsDir", expected: "directory", relative: "logs" }
 ];
 
-export async function validateWorkNodeLayout(root: string): Promise<WorkNodeLayout> {
+function workNodeLayoutAt(root: string): WorkNodeLayout {
   const normalizedRoot = path.resolve(root);
-  const layout: WorkNodeLayout = {
+  return {
     root: normalizedRoot,
     planPath: path.join(normalizedRoot, "PLAN.md"),
     statePath: path.join(normalizedRoot, "STATE.md"),
     logsDir: path.join(normalizedRoot, "logs")
   };
+}
 
-  const failures: string[] = [];
-  await Promise.all(
-    requiredEntries.map(async (entry) => {
-      const candidate = layout[entry.name];
-      try {
-        const stat = await fs.stat(candidate);
-        if (entry.expected === "file" && !stat.isFile()) {
-          failures.push(`${entry.relative} exists but is not a file`);
-        } else if (entry.expected === "directory" && !stat.isDirectory()) {
-          failures.push(`${entry.relative} exists but is not a directory`);
-        }
-      } catch (error) {
-        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-          failures.push(`${entry.relative} was not found under ${normalizedRoot}`);
-        } else {
-          failures.push(`failed to stat ${entry.relative}: ${(error as Error).message}`);
-        }
-      }
-    })
-  );
+/** Describes what is wrong with one required entry, given what is at its path. */
+function layoutEntryFailure(
+  layout: WorkNodeLayout,
+  entry: (typeof requiredEntries)[number],
+  kind: StorageEntryKind | null
+): string | null {
+  if (kind === null) {
+    return `${entry.relative} was not found under ${layout.root}`;
+  }
+  return kind === entry.expected ? null : `${entry.relative} exists but is not a ${entry.expected}`;
+}
 
-  if (failures.length) {
-    throw new Error(`WorkNode layout validation failed:\n- ${failures.join("\n- ")}`);
+function assertLayoutValid(failures: Array<string | null>): void {
+  const problems = failures.filter((failure): failure is string => failure !== null);
+  if (problems.length) {
+    throw new Error(`WorkNode layout validation failed:\n- ${problems.join("\n- ")}`);
   }
+}
 
+export async function validateWorkNodeLayout(
+  root: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeLayout> {
+  const layout = workNodeLayoutAt(root);
+  const failures: Array<string | null> = [];
+  for (const entry of requiredEntries) {
+    try {
+      failures.push(layoutEntryFailure(layout, entry, await storage.stat(layout[entry.name])));
+    } catch (error) {
+      failures.push(`failed to stat ${entry.relative}: ${(error as Error).message}`);
+    }
+  }
+  assertLayoutValid(failures);
   return layout;
 }
 
+/** @deprecated Use `validateWorkNodeLayout`, which also accepts a storage backend. */
 export function validateWorkNodeLayoutSync(root: string): WorkNodeLayout {
-  const normalizedRoot = path.resolve(root);
-  const layout: WorkNodeLayout = {
-    root: normalizedRoot,
-    planPath: path.join(normalizedRoot, "PLAN.md"),
-    statePath: path.join(normalizedRoot, "STATE.md"),
-    logsDir: path.join(normalizedRoot, "logs")
-  };
-
-  const failures: string[] = [];
+  const layout = workNodeLayoutAt(root);
+  const failures: Array<string | null> = [];
   for (const entry of requiredEntries) {
-    const candidate = layout[entry.name];
     try {
-      const stat = statSync(candidate);
-      if (entry.expected === "file" && !stat.isFile()) {
-        failures.push(`${entry.relative} exists but is not a file`);
-      } else if (entry.expected === "directory" && !stat.isDirectory()) {
-        failures.push(`${entry.relative} exists but is not a directory`);
-      }
+      failures.push(layoutEntryFailure(layout, entry, fileSystemStorage.statSync(layout[entry.name])));
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
-        failures.push(`${entry.relative} was not found under ${normalizedRoot}`);
-      } else {
-        failures.push(`failed to stat ${entry.relative}: ${(error as Error).message}`);
-      }
+      failures.push(`failed to stat ${entry.relative}: ${(error as Error).message}`);
     }
   }
-
-  if (failures.length) {
-    throw new Error(`WorkNode layout validation failed:\n- ${failures.join("\n- ")}`);
-  }
-
+  assertLayoutValid(failures);
   return layout;
 }
 
-const IGNORED_DIRECTORY_NAMES = new Set([".git", ".github", "node_modules", "dist", "coverage", "logs"]);
-
-async function safeReadDir(dir: string): Promise<Dirent[]> {
-  try {
-    return await fs.readdir(dir, { withFileTypes: true });
-  } catch {
-    return [];
-  }
-}
+/** Directories discovery never descends into. */
+export const IGNORED_DIRECTORY_NAMES: ReadonlySet<string> = new Set([".git", ".github", "node_modules", "dist", "coverage", "logs"]);
 
 async function scanForWorkNodes(
   dir: string,
   discovered: Map<string, WorkNodeLayout>,
-  visited: Set<string>
+  visited: Set<string>,
+  storage: WorkNodeStorage
 ): Promise<void> {
   const normalized = path.resolve(dir);
   if (visited.has(normalized)) {
@@ -734,7 +1836,7 @@ async function scanForWorkNodes(
   visited.add(normalized);
 
   try {
-    const layout = await validateWorkNodeLayout(normalized);
+    const layout = await validateWorkNodeLayout(normalized, storage);
     if (!discovered.has(normalized)) {
       discovered.set(normalized, layout);
     }
@@ -742,22 +1844,25 @@ async function scanForWorkNodes(
     // ignore directories that are not WorkNodes
   }
 
-  const entries = await safeReadDir(normalized);
+  const entries = await storage.readDir(normalized);
   for (const entry of entries) {
-    if (!entry.isDirectory()) {
+    if (entry.kind !== "directory") {
       continue;
     }
     if (IGNORED_DIRECTORY_NAMES.has(entry.name)) {
       continue;
     }
-    await scanForWorkNodes(path.join(normalized, entry.name), discovered, visited);
+    await scanForWorkNodes(path.join(normalized, entry.name), discovered, visited, storage);
   }
 }
 
-export async function discoverWorkNodes(root: string): Promise<WorkNodeLayout[]> {
+export async function discoverWorkNodes(
+  root: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeLayout[]> {
   const normalizedRoot = path.resolve(root);
   const discovered = new Map<string, WorkNodeLayout>();
-  await scanForWorkNodes(normalizedRoot, discovered, new Set());
+  await scanForWorkNodes(normalizedRoot, discovered, new Set(), storage);
   return Array.from(discovered.values()).sort((a, b) => a.root.localeCompare(b.root));
 }
 
@@ -802,10 +1907,69 @@ export function buildWorkNodeRelations(nodes: WorkNodeLayout[]): WorkNodeRelatio
   return relations;
 }
 
-export async function loadWorkNode(root: string): Promise<WorkNode> {
-  return WorkNode.load(root);
+export interface WorkNodeStatusSummary {
+  layout: WorkNodeLayout;
+  parent: string | null;
+  depth: number;
+  counts: Record<StepStatus, number>;
+  current: StateRow | null;
+  next: StateRow | null;
+  error: string | null;
+}
+
+function countStepsByStatus(state: WorkState): Record<StepStatus, number> {
+  const counts = Object.fromEntries(STEP_STATUSES.map((status) => [status, 0])) as Record<StepStatus, number>;
+  for (const entry of state.entries) {
+    counts[entry.status] += 1;
+  }
+  return counts;
+}
+
+export async function summarizeWorkNodes(
+  root: string,
+  storage: WorkNodeStorage = fileSystemStorage
+): Promise<WorkNodeStatusSummary[]> {
+  const relations = await WorkNode.discoverRelations(root, storage);
+  const byRoot = new Map(relations.map((relation) => [relation.layout.root, relation]));
+  const depthOf = (relation: WorkNodeRelation): number => {
+    let depth = 0;
+    let parent = relation.parent;
+    while (parent) {
+      depth += 1;
+      parent = byRoot.get(parent.root)?.parent ?? null;
+    }
+    return depth;
+  };
+
+  const summaries: WorkNodeStatusSummary[] = [];
+  for (const relation of relations) {
+    const summary: WorkNodeStatusSummary = {
+      layout: relation.layout,
+      parent: relation.parent?.root ?? null,
+      depth: depthOf(relation),
+      counts: countStepsByStatus(new WorkState()),
+      current: null,
+      next: null,
+      error: null
+    };
+    try {
+      const node = await WorkNode.loadFromLayout(relation.layout, storage);
+      summary.counts = countStepsByStatus(node.state);
+      summary.current = node.listStepsByStatus("in-progress")[0] ?? null;
+      summary.next = node.getNextActionableStep() ?? null;
+    } catch (error) {
+      summary.error = (error as Error).message;
+    }
+    summaries.push(summary);
+  }
+  return summaries;
+}
+
+export async function loadWorkNode(root: string, storage: WorkNodeStorage = fileSystemStorage): Promise<WorkNode> {
+  return WorkNode.load(root, storage);
 }
 
+/** @deprecated Use `loadWorkNode`, which also accepts a storage backend. */
 export function loadWorkNodeSync(root: string): WorkNode {
   return WorkNode.loadSync(root);
 }